@@ -1,20 +1,271 @@
 #!/usr/bin/env bun
+import type { BestingConfig } from '../src/types'
 import { CLI } from '@stacksjs/clapp'
+import process from 'node:process'
+import { createInterface } from 'node:readline/promises'
 import { version } from '../package.json'
+import { loadProjectConfig, projectRoot } from '../src/config'
+import { durationBudget } from '../src/durations'
+import { initProject, printInitResult } from '../src/init'
+import { formatTestList, formatTestListJson, listTests } from '../src/list'
+import { runTests } from '../src/runner'
+import { mergeReports, parseShard } from '../src/shard'
+import { validateNamePattern } from '../src/tags'
+import { watchTests } from '../src/watch'
 
 const cli = new CLI('besting')
 
 interface CliOption {
   verbose: boolean
+  env?: string
+  workers?: number
+  reporter?: string
+  outputFile?: string
+  watch?: boolean
+  onlyFailures?: boolean
+  testNamePattern?: string
+  tag?: string
+  excludeTag?: string
+  shard?: string
+  roots?: string
+  include?: string
+  exclude?: string
+  timeout?: number
+  retry?: number
+  bail?: boolean | string
+  coverage?: boolean
+  slowest?: number
+  maxDuration?: number
+  maxFileDuration?: number
+}
+
+// Split a comma-separated list, keeping commas inside glob braces such as `*.{ts,tsx}`
+function parseList(value?: string): string[] | undefined {
+  if (value === undefined)
+    return undefined
+
+  const items: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of String(value)) {
+    if (char === ',' && depth === 0) {
+      items.push(current)
+      current = ''
+      continue
+    }
+    if (char === '{')
+      depth++
+    else if (char === '}')
+      depth = Math.max(0, depth - 1)
+    current += char
+  }
+  items.push(current)
+
+  return items.map(item => item.trim()).filter(Boolean)
+}
+
+// Parse a numeric option, throwing unless it is an integer of at least `min`
+function parseCount(option: string, value: unknown, min = 1): number {
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < min)
+    throw new Error(`--${option} expects ${min === 0 ? 'a non-negative' : 'a positive'} integer, got "${value}"`)
+  return count
+}
+
+// The validated config with the `--env` profile merged in, or undefined (after printing why) when it does not load
+async function resolveConfig(env?: string): Promise<BestingConfig | undefined> {
+  // Test processes load the same profile through the environment
+  if (env)
+    process.env.BESTING_ENV = String(env)
+  try {
+    return await loadProjectConfig()
+  }
+  catch (error) {
+    console.error((error as Error).message)
+    return undefined
+  }
 }
 
 cli
-  .command('test', 'Run the tests')
+  .command('test [...paths]', 'Run the tests')
   .option('--verbose', 'Enable verbose logging')
+  .option('--env <profile>', 'Merge this profile from besting.config.ts over the config and load .env.<profile>')
+  .option('--workers <count>', 'Number of test files to run in parallel (defaults to the CPU count)')
+  .option('--reporter <name>', 'Reporter name (default, junit, json, ndjson) or path to a reporter module')
+  .option('--outputFile <path>', 'Write the reporter output to a file')
+  .option('--watch', 'Rerun affected test files when files change')
+  .option('--only-failures', 'Rerun only the tests that failed in the previous run')
+  .option('-t, --test-name-pattern <pattern>', 'Only run tests whose name matches this regular expression')
+  .option('--tag <tags>', 'Comma-separated tags; only run tests with any of them')
+  .option('--exclude-tag <tags>', 'Comma-separated tags; skip tests with any of them')
+  .option('--shard <index/total>', 'Run one shard of the test files, e.g. 2/5')
+  .option('--roots <dirs>', 'Comma-separated directories to search for test files (defaults to those of --include, or test,examples)')
+  .option('--include <globs>', 'Comma-separated globs a test file must match')
+  .option('--exclude <globs>', 'Comma-separated globs of files and directories to skip')
+  .option('--timeout <ms>', 'Timeout of each test in milliseconds')
+  .option('--coverage', 'Collect coverage from every test file and report it merged')
+  .option('--slowest <count>', 'Print the slowest tests and files after the run')
+  .option('--max-duration <ms>', 'Flag tests that take longer than this (fails them with maxDuration.fail in the config)')
+  .option('--max-file-duration <ms>', 'Flag test files that take longer than this')
+  .option('--retry <count>', 'Rerun failing tests up to this many times and report those that pass as flaky')
+  .option('--bail [count]', 'Stop after the first failure, or after this many failed tests, cancelling the files still running')
   .example('besting test --verbose')
-  .action(async (options?: CliOption) => {
-    // eslint-disable-next-line no-console
-    console.log('Options:', options)
+  .example('besting test --env ci')
+  .example('besting test --workers 4')
+  .example('besting test --reporter junit --outputFile report.xml')
+  .example('besting test --reporter ndjson')
+  .example('besting test --watch')
+  .example('besting test --only-failures')
+  .example('besting test -t "login"')
+  .example('besting test --tag browser --exclude-tag slow')
+  .example('besting test --shard 2/5 --reporter junit --outputFile reports/shard-2.xml')
+  .example('besting test --retry 2 --timeout 10000')
+  .example('besting test --bail')
+  .example('besting test --bail=5')
+  .example('besting test --coverage')
+  .example('besting test --slowest 10 --max-duration 500')
+  .example('besting test --roots packages --include \'packages/*/src/**/*.test.ts\'')
+  .example('besting test test/dom.test.ts')
+  .action(async (paths: string[] = [], options?: CliOption) => {
+    const config = await resolveConfig(options?.env)
+    if (!config) {
+      process.exitCode = 1
+      return
+    }
+
+    try {
+      const runOptions = {
+        paths,
+        cwd: projectRoot,
+        workers: options?.workers !== undefined ? parseCount('workers', options.workers) : config.workers,
+        reporter: options?.reporter,
+        outputFile: options?.outputFile,
+        reporters: config.reporters,
+        onlyFailures: options?.onlyFailures,
+        testNamePattern: options?.testNamePattern !== undefined ? validateNamePattern(String(options.testNamePattern)) : undefined,
+        tags: parseList(options?.tag),
+        excludeTags: parseList(options?.excludeTag),
+        shard: options?.shard ? parseShard(String(options.shard)) : undefined,
+        roots: parseList(options?.roots) ?? config.roots,
+        include: parseList(options?.include) ?? config.include,
+        exclude: parseList(options?.exclude) ?? config.exclude,
+        testTimeout: options?.timeout !== undefined ? parseCount('timeout', options.timeout) : config.testTimeout,
+        hookTimeout: config.hookTimeout,
+        retry: options?.retry !== undefined ? parseCount('retry', options.retry, 0) : config.retry,
+        // A bare `--bail` stops at the first failure
+        bail: options?.bail === true ? 1 : options?.bail !== undefined ? parseCount('bail', options.bail) : undefined,
+        setupFiles: config.setupFiles,
+        globalSetup: config.globalSetup,
+        globalTeardown: config.globalTeardown,
+        coverage: options?.coverage ? { ...config.coverage, enabled: true } : config.coverage,
+        slowest: options?.slowest !== undefined ? parseCount('slowest', options.slowest) : config.slowest,
+        maxDuration: {
+          ...durationBudget(config.maxDuration),
+          ...options?.maxDuration !== undefined && { test: parseCount('max-duration', options.maxDuration) },
+          ...options?.maxFileDuration !== undefined && { file: parseCount('max-file-duration', options.maxFileDuration) },
+        },
+        verbose: options?.verbose,
+      }
+
+      process.exitCode = options?.watch ? await watchTests(runOptions) : await runTests(runOptions)
+    }
+    catch (error) {
+      // e.g. an invalid --shard, -t pattern or count, or an unknown reporter
+      console.error((error as Error).message)
+      process.exitCode = 1
+    }
+  })
+
+cli
+  .command('list [...paths]', 'List the test files and tests a run would include, without running them')
+  .option('--json', 'Print the list as JSON')
+  .option('--env <profile>', 'Merge this profile from besting.config.ts over the config')
+  .option('-t, --test-name-pattern <pattern>', 'Only list tests whose name matches this regular expression')
+  .option('--tag <tags>', 'Comma-separated tags; only list tests with any of them')
+  .option('--exclude-tag <tags>', 'Comma-separated tags; leave out tests with any of them')
+  .option('--shard <index/total>', 'List one shard of the test files, e.g. 2/5')
+  .option('--roots <dirs>', 'Comma-separated directories to search for test files')
+  .option('--include <globs>', 'Comma-separated globs a test file must match')
+  .option('--exclude <globs>', 'Comma-separated globs of files and directories to skip')
+  .example('besting list')
+  .example('besting list --tag browser')
+  .example('besting list --shard 2/5 --json')
+  .action(async (paths: string[] = [], options?: CliOption & { json?: boolean }) => {
+    const config = await resolveConfig(options?.env)
+    if (!config) {
+      process.exitCode = 1
+      return
+    }
+
+    try {
+      const files = listTests({
+        paths,
+        cwd: projectRoot,
+        testNamePattern: options?.testNamePattern !== undefined ? validateNamePattern(String(options.testNamePattern)) : undefined,
+        tags: parseList(options?.tag),
+        excludeTags: parseList(options?.excludeTag),
+        shard: options?.shard ? parseShard(String(options.shard)) : undefined,
+        roots: parseList(options?.roots) ?? config.roots,
+        include: parseList(options?.include) ?? config.include,
+        exclude: parseList(options?.exclude) ?? config.exclude,
+      })
+      process.stdout.write(options?.json ? formatTestListJson(files) : `${formatTestList(files)}\n`)
+    }
+    catch (error) {
+      console.error((error as Error).message)
+      process.exitCode = 1
+    }
+  })
+
+cli
+  .command('merge-reports [...reports]', 'Merge JUnit or JSON reports from several shards into one')
+  .option('--reporter <name>', 'Reporter for the merged results (default, junit, json, ndjson or a module path)')
+  .option('--outputFile <path>', 'Write the merged report to a file')
+  .example('besting merge-reports reports/*.xml --reporter junit --outputFile report.xml')
+  .action(async (reports: string[] = [], options?: Pick<CliOption, 'reporter' | 'outputFile'>) => {
+    const config = await resolveConfig()
+    if (!config) {
+      process.exitCode = 1
+      return
+    }
+
+    try {
+      process.exitCode = await mergeReports(reports, {
+        reporter: options?.reporter,
+        outputFile: options?.outputFile,
+        reporters: config.reporters,
+      })
+    }
+    catch (error) {
+      console.error((error as Error).message)
+      process.exitCode = 1
+    }
+  })
+
+// Ask a yes/no question on the terminal; answers other than yes count as no
+async function confirm(question: string): Promise<boolean> {
+  const readline = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    return /^y(?:es)?$/i.test((await readline.question(`${question} (y/N) `)).trim())
+  }
+  finally {
+    readline.close()
+  }
+}
+
+cli
+  .command('init', 'Scaffold besting.config.ts, example tests and a test script')
+  .option('--force', 'Overwrite existing files instead of keeping them')
+  .option('--yes', 'Merge the missing defaults into an existing config without asking')
+  .example('besting init')
+  .example('besting init --yes')
+  .action(async (options?: { force?: boolean, yes?: boolean }) => {
+    const result = await initProject({
+      force: options?.force,
+      // Without a terminal to ask on, an existing config is only merged with --yes
+      confirm: options?.yes ? async () => true : process.stdin.isTTY ? confirm : undefined,
+    })
+    printInitResult(result)
   })
 
 cli.command('version', 'Show the version of the CLI').action(() => {
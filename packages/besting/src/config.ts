@@ -1,6 +1,9 @@
 import type { BestingConfig } from './types'
-import { resolve } from 'node:path'
+import process from 'node:process'
 import { loadConfig as loadBunfigConfig } from 'bunfig'
+import { applyProfile, loadProfileEnv } from './profiles'
+import { findProjectRoot } from './project'
+import { validateConfig } from './schema'
 
 /**
  * Default configuration for the router
@@ -9,20 +12,57 @@ export const defaultConfig: BestingConfig = {
   verbose: true,
 }
 
+/**
+ * Type a `besting.config.ts` without importing `BestingConfig`:
+ * `export default defineConfig({ roots: ['test'] })`
+ */
+export function defineConfig(config: BestingConfig): BestingConfig {
+  return config
+}
+
 /**
  * Load configuration from bunfig
  */
 export function loadConfig(config: Partial<BestingConfig> = {}): BestingConfig {
-  return {
+  return validateConfig({
     ...defaultConfig,
     ...config,
-  }
+  })
+}
+
+/**
+ * Directory the config was loaded from; paths in the config are relative to it
+ */
+export const projectRoot: string = findProjectRoot()
+
+async function readProjectConfig(): Promise<unknown> {
+  return await loadBunfigConfig({
+    name: 'besting',
+    cwd: projectRoot,
+    defaultConfig,
+  })
 }
 
+/**
+ * Load the project config with the given profile merged over it, after loading the
+ * profile's `.env.<profile>` file. The profile defaults to `BESTING_ENV`, which
+ * `besting test --env` sets so that every test process sees the same profile.
+ */
+export async function loadProjectConfig(profile: string | undefined = process.env.BESTING_ENV): Promise<BestingConfig> {
+  const loaded = validateConfig(await readProjectConfig(), `besting config in ${projectRoot}`)
+
+  if (!profile)
+    return loaded
+
+  loadProfileEnv(projectRoot, profile)
+  return applyProfile(loaded, profile)
+}
+
+/**
+ * The project config, loaded when this module is imported. Loading it never throws, so an
+ * invalid config cannot break importing `besting`: it falls back to the config as written,
+ * and the CLI commands report the problems through `loadProjectConfig`.
+ */
 // eslint-disable-next-line antfu/no-top-level-await
 // eslint-disable-next-line ts/no-top-level-await
-export const config: BestingConfig = await loadBunfigConfig({
-  name: 'besting',
-  cwd: resolve(__dirname, '..'),
-  defaultConfig,
-})
+export const config: BestingConfig = await loadProjectConfig().catch(async () => await readProjectConfig() as BestingConfig)
@@ -0,0 +1,335 @@
+/* eslint-disable no-console */
+
+/**
+ * Coverage
+ *
+ * Every `bun test` child writes its own LCOV report; these are merged into one
+ * coverage map and written as a text summary, an LCOV file and a static HTML report.
+ */
+
+import type { CoverageConfig, CoverageReporterName, CoverageThresholds, FileResult } from './types'
+import { Glob } from 'bun'
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path'
+import { colors, escapeXml } from './reporters'
+import { excludeMatcher } from './runner'
+
+/**
+ * Merged coverage of one source file
+ */
+export interface FileCoverage {
+  /** Source path relative to the project root */
+  file: string
+  /** Hit count per executable line number */
+  lines: Map<number, number>
+  /** Number of functions found and executed */
+  functions: { found: number, hit: number }
+}
+
+/**
+ * Covered and total count of one metric
+ */
+export interface CoverageMetric {
+  covered: number
+  total: number
+  /** Percentage covered; 100 when there is nothing to cover */
+  pct: number
+}
+
+export interface CoverageSummary {
+  lines: CoverageMetric
+  functions: CoverageMetric
+}
+
+/**
+ * Default coverage reports
+ */
+export const defaultCoverageReporters: CoverageReporterName[] = ['text', 'lcov', 'html']
+
+function metric(covered: number, total: number): CoverageMetric {
+  return { covered, total, pct: total === 0 ? 100 : (covered / total) * 100 }
+}
+
+function formatPct(pct: number): string {
+  return pct.toFixed(2)
+}
+
+/**
+ * Parse an LCOV report. Records for the same file are merged, so the concatenated
+ * reports of several processes can be parsed at once.
+ */
+export function parseLcov(content: string, rootDir: string): FileCoverage[] {
+  const files = new Map<string, FileCoverage>()
+  let current: FileCoverage | undefined
+  let functions = { found: 0, hit: 0 }
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+    const separator = line.indexOf(':')
+    const key = separator === -1 ? line : line.slice(0, separator)
+    const value = separator === -1 ? '' : line.slice(separator + 1)
+
+    if (key === 'SF') {
+      const file = isAbsolute(value) ? relative(rootDir, value) : value
+      current = files.get(file) ?? { file, lines: new Map(), functions: { found: 0, hit: 0 } }
+      files.set(file, current)
+      functions = { found: 0, hit: 0 }
+    }
+    else if (current && key === 'DA') {
+      const [lineNumber, hits] = value.split(',').map(Number)
+      current.lines.set(lineNumber, (current.lines.get(lineNumber) ?? 0) + hits)
+    }
+    else if (current && key === 'FNF') {
+      functions.found = Number(value)
+    }
+    else if (current && key === 'FNH') {
+      functions.hit = Number(value)
+    }
+    else if (current && key === 'end_of_record') {
+      // Bun reports function totals without naming the functions, so merged records keep
+      // the best count seen; the true merged value can only be higher
+      current.functions = {
+        found: Math.max(current.functions.found, functions.found),
+        hit: Math.max(current.functions.hit, functions.hit),
+      }
+      current = undefined
+    }
+  }
+
+  return [...files.values()].sort((a, b) => a.file.localeCompare(b.file))
+}
+
+/**
+ * Merge the coverage of every test process into one coverage map,
+ * keeping only the files matching `include` and not `exclude`
+ */
+export function mergeCoverage(results: FileResult[], rootDir: string, config: CoverageConfig = {}): FileCoverage[] {
+  const include = (config.include ?? ['**']).map(pattern => new Glob(pattern.replace(/^\.\//, '')))
+  const isExcluded = excludeMatcher(config.exclude)
+  const lcov = results.map(result => result.coverage ?? '').join('\n')
+
+  return parseLcov(lcov, rootDir)
+    .filter(coverage => include.some(glob => glob.match(coverage.file)) && !isExcluded(coverage.file))
+}
+
+/**
+ * Line and function coverage of one file or, with several files, of all of them
+ */
+export function summarizeCoverage(files: FileCoverage[]): CoverageSummary {
+  let linesCovered = 0
+  let linesTotal = 0
+  let functionsHit = 0
+  let functionsFound = 0
+
+  for (const file of files) {
+    for (const hits of file.lines.values()) {
+      linesTotal++
+      if (hits > 0)
+        linesCovered++
+    }
+    functionsHit += file.functions.hit
+    functionsFound += file.functions.found
+  }
+
+  return {
+    lines: metric(linesCovered, linesTotal),
+    functions: metric(functionsHit, functionsFound),
+  }
+}
+
+/**
+ * Uncovered lines collapsed into ranges, e.g. `5-8, 12`
+ */
+export function uncoveredLines(file: FileCoverage): string {
+  const lines = [...file.lines.entries()].sort(([a], [b]) => a - b)
+  const ranges: Array<[number, number]> = []
+  let range: [number, number] | undefined
+
+  for (const [line, hits] of lines) {
+    if (hits > 0) {
+      range = undefined
+      continue
+    }
+    if (range && line === range[1] + 1)
+      range[1] = line
+    else
+      ranges.push(range = [line, line])
+  }
+
+  return ranges.map(([start, end]) => start === end ? `${start}` : `${start}-${end}`).join(', ')
+}
+
+/**
+ * Format the coverage as a text table in the style of Bun's own coverage report
+ */
+export function formatCoverageText(files: FileCoverage[]): string {
+  const rows = [
+    ['File', '% Funcs', '% Lines', 'Uncovered Line #s'],
+    ...[undefined, ...files].map((file) => {
+      const summary = summarizeCoverage(file ? [file] : files)
+      return [file ? ` ${file.file}` : 'All files', formatPct(summary.functions.pct), formatPct(summary.lines.pct), file ? uncoveredLines(file) : '']
+    }),
+  ]
+
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)))
+  const format = (row: string[]): string => row
+    .map((cell, column) => column === 0 || column === 3 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+    .join(' | ')
+    .trimEnd()
+  const divider = widths.map(width => '-'.repeat(width)).join('-|-')
+
+  return [divider, format(rows[0]), divider, ...rows.slice(1).map(format), divider].join('\n')
+}
+
+/**
+ * Format the coverage as an LCOV report
+ */
+export function formatLcov(files: FileCoverage[]): string {
+  const records = files.map((file) => {
+    const lines = [...file.lines.entries()].sort(([a], [b]) => a - b)
+    const summary = summarizeCoverage([file])
+    return [
+      'TN:',
+      `SF:${file.file}`,
+      `FNF:${file.functions.found}`,
+      `FNH:${file.functions.hit}`,
+      ...lines.map(([line, hits]) => `DA:${line},${hits}`),
+      `LF:${summary.lines.total}`,
+      `LH:${summary.lines.covered}`,
+      'end_of_record',
+    ].join('\n')
+  })
+
+  return `${records.join('\n')}\n`
+}
+
+const htmlStyle = `
+body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+table { border-collapse: collapse; }
+th, td { padding: 0.25rem 0.75rem; border-bottom: 1px solid #d0d7de; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+.low { background: #ffebe9; } .medium { background: #fff8c5; } .high { background: #dafbe1; }
+pre { margin: 0; }
+.source td { border: 0; padding: 0 0.5rem; text-align: left; font: 12px/1.5 ui-monospace, monospace; }
+.source .line, .source .hits { text-align: right; color: #656d76; user-select: none; }
+.source .covered { background: #dafbe1; } .source .uncovered { background: #ffebe9; }
+`
+
+function level(pct: number): string {
+  return pct >= 80 ? 'high' : pct >= 50 ? 'medium' : 'low'
+}
+
+function htmlPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>${htmlStyle}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+function htmlSummaryCells(summary: CoverageSummary): string {
+  return [summary.functions, summary.lines]
+    .map(({ pct, covered, total }) => `<td class="${level(pct)}">${formatPct(pct)}% (${covered}/${total})</td>`)
+    .join('')
+}
+
+// Page of a file within the report; files outside the project root stay inside the report directory
+function htmlPath(file: FileCoverage): string {
+  return `${file.file.replace(/\.\.\//g, '__/')}.html`
+}
+
+function htmlFilePage(file: FileCoverage, rootDir: string): string {
+  const path = resolve(rootDir, file.file)
+  const source = existsSync(path) ? readFileSync(path, 'utf8').split('\n') : []
+  const rows = source.map((text, index) => {
+    const hits = file.lines.get(index + 1)
+    const className = hits === undefined ? '' : hits > 0 ? 'covered' : 'uncovered'
+    return `<tr class="${className}"><td class="line">${index + 1}</td><td class="hits">${hits ?? ''}</td><td><pre>${escapeXml(text)}</pre></td></tr>`
+  })
+
+  return htmlPage(file.file, `<p><a href="${'../'.repeat(htmlPath(file).split('/').length - 1)}index.html">All files</a></p>
+<h1>${escapeXml(file.file)}</h1>
+<table><tr><th></th><th>Functions</th><th>Lines</th></tr><tr><td></td>${htmlSummaryCells(summarizeCoverage([file]))}</tr></table>
+<table class="source">
+${rows.join('\n')}
+</table>`)
+}
+
+function htmlIndexPage(files: FileCoverage[]): string {
+  const rows = files.map(file => `<tr><td><a href="${escapeXml(htmlPath(file))}">${escapeXml(file.file)}</a></td>${htmlSummaryCells(summarizeCoverage([file]))}</tr>`)
+
+  return htmlPage('Coverage report', `<h1>Coverage report</h1>
+<table>
+<tr><th>File</th><th>Functions</th><th>Lines</th></tr>
+<tr><td><strong>All files</strong></td>${htmlSummaryCells(summarizeCoverage(files))}</tr>
+${rows.join('\n')}
+</table>`)
+}
+
+/**
+ * Write a static HTML report: an index page and one annotated source page per file
+ */
+export function writeHtmlReport(files: FileCoverage[], rootDir: string, outputDir: string): void {
+  rmSync(outputDir, { recursive: true, force: true })
+  mkdirSync(outputDir, { recursive: true })
+  writeFileSync(join(outputDir, 'index.html'), htmlIndexPage(files))
+
+  for (const file of files) {
+    const page = join(outputDir, htmlPath(file))
+    mkdirSync(dirname(page), { recursive: true })
+    writeFileSync(page, htmlFilePage(file, rootDir))
+  }
+}
+
+/**
+ * Check every file against the thresholds and describe each miss
+ */
+export function checkCoverageThresholds(files: FileCoverage[], thresholds: CoverageThresholds = {}): string[] {
+  const failures: string[] = []
+
+  for (const file of files) {
+    const summary = summarizeCoverage([file])
+    for (const name of ['lines', 'functions'] as const) {
+      const threshold = thresholds[name]
+      if (threshold !== undefined && summary[name].pct < threshold)
+        failures.push(`${file.file}: ${name} coverage ${formatPct(summary[name].pct)}% is below the ${threshold}% threshold`)
+    }
+  }
+
+  return failures
+}
+
+/**
+ * Merge the coverage of a run, write the configured reports and check the thresholds.
+ * Returns the threshold failures, which have already been printed.
+ */
+export function reportCoverage(results: FileResult[], rootDir: string, config: CoverageConfig = {}): string[] {
+  const files = mergeCoverage(results, rootDir, config)
+  const reporters = config.reporter ?? defaultCoverageReporters
+  const outputDir = resolve(rootDir, config.reportsDirectory ?? 'coverage')
+
+  // Printed to stderr so that it never mixes into a json or ndjson report on stdout
+  if (reporters.includes('text'))
+    console.error(`\n${formatCoverageText(files)}\n`)
+
+  if (reporters.includes('lcov')) {
+    mkdirSync(outputDir, { recursive: true })
+    writeFileSync(join(outputDir, 'lcov.info'), formatLcov(files))
+  }
+
+  if (reporters.includes('html'))
+    writeHtmlReport(files, rootDir, join(outputDir, 'html'))
+
+  const failures = checkCoverageThresholds(files, config.thresholds)
+  for (const failure of failures)
+    console.error(`${colors.red}Coverage threshold not met: ${failure}${colors.reset}`)
+
+  return failures
+}
@@ -0,0 +1,90 @@
+/**
+ * Datasets
+ *
+ * Pest-style datasets for `best().test(...).with(...)`: the test runs once per row,
+ * with the row's values as arguments. Several datasets combine into their cartesian product.
+ */
+
+/**
+ * Rows of a dataset: an array of rows, or rows keyed by name. A row that is an array
+ * holds the test's arguments; any other value is its single argument.
+ */
+export type DatasetRows = unknown[] | Record<string, unknown>
+
+/**
+ * A dataset given to `.with()`: rows, a function returning rows, or the name of a dataset
+ * registered with `dataset()`
+ */
+export type Dataset = DatasetRows | (() => DatasetRows) | string
+
+/**
+ * One run of a dataset test
+ */
+export interface DatasetCase {
+  /** Shown after the test name, e.g. `(1, 2, 3)` or the row's name */
+  label: string
+  args: unknown[]
+}
+
+const datasets = new Map<string, DatasetRows | (() => DatasetRows)>()
+
+/**
+ * Register a named dataset, used with `.with('name')`. Register shared datasets in a
+ * setup file to use them from every test file.
+ */
+export function dataset(name: string, rows: DatasetRows | (() => DatasetRows)): void {
+  datasets.set(name, rows)
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string')
+    return `'${value}'`
+  if (typeof value === 'function')
+    return value.name ? `[Function ${value.name}]` : '[Function]'
+  if (value instanceof Date)
+    return value.toISOString()
+  if (typeof value === 'object' && value !== null) {
+    try {
+      return JSON.stringify(value)
+    }
+    catch {
+      return String(value)
+    }
+  }
+  return String(value)
+}
+
+function resolveDataset(source: Dataset): DatasetRows {
+  if (typeof source !== 'string')
+    return typeof source === 'function' ? source() : source
+
+  const rows = datasets.get(source)
+  if (!rows) {
+    const available = [...datasets.keys()]
+    throw new Error(`Unknown dataset "${source}"${available.length > 0 ? ` (available: ${available.join(', ')})` : ', no datasets are registered'}`)
+  }
+  return typeof rows === 'function' ? rows() : rows
+}
+
+function datasetCases(source: Dataset): DatasetCase[] {
+  const rows = resolveDataset(source)
+  const toArgs = (row: unknown): unknown[] => Array.isArray(row) ? row : [row]
+
+  if (Array.isArray(rows))
+    return rows.map(row => ({ label: `(${toArgs(row).map(formatValue).join(', ')})`, args: toArgs(row) }))
+  return Object.entries(rows).map(([label, row]) => ({ label, args: toArgs(row) }))
+}
+
+/**
+ * The cases of one or more datasets. Several datasets combine into every combination
+ * of their rows, with the arguments of each row in dataset order.
+ */
+export function combineDatasets(sources: Dataset[]): DatasetCase[] {
+  return sources.map(datasetCases).reduce<DatasetCase[]>(
+    (combined, cases) => combined.flatMap(left => cases.map(right => ({
+      label: left.label ? `${left.label} / ${right.label}` : right.label,
+      args: [...left.args, ...right.args],
+    }))),
+    [{ label: '', args: [] }],
+  )
+}
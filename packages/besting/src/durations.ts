@@ -0,0 +1,111 @@
+/**
+ * Durations
+ *
+ * Slow-test reports and duration budgets. The report compares each duration
+ * with the history of previous runs so that tests getting slower stand out.
+ */
+
+import type { DurationHistory } from './history'
+import type { DurationBudget, FileResult, TestResult } from './types'
+import { testHistoryKey } from './history'
+import { colors, formatDuration } from './reporters'
+import { testFullName } from './results'
+
+// A run this much slower than the average of the previous runs is highlighted
+const regressionFactor = 1.2
+
+/**
+ * Normalize a `maxDuration` setting; a number is the budget of each test
+ */
+export function durationBudget(maxDuration?: number | DurationBudget): DurationBudget {
+  return typeof maxDuration === 'number' ? { test: maxDuration } : maxDuration ?? {}
+}
+
+function hasRun(test: TestResult): boolean {
+  return test.status !== 'skip' && test.status !== 'todo'
+}
+
+/**
+ * Flag the tests and the file that took longer than the budget.
+ * With `fail` set, they are also turned into failures.
+ */
+export function applyDurationBudget(result: FileResult, budget: DurationBudget): FileResult {
+  const testBudget = budget.test
+  if (testBudget !== undefined) {
+    for (const test of result.tests.filter(test => hasRun(test) && test.duration > testBudget)) {
+      test.overBudget = true
+      if (budget.fail && test.status !== 'fail') {
+        test.status = 'fail'
+        test.error = { message: `Test took ${formatDuration(test.duration)}, over its ${formatDuration(testBudget)} budget`, type: 'DurationBudgetError' }
+      }
+    }
+  }
+
+  if (budget.file !== undefined && result.duration > budget.file) {
+    result.overBudget = true
+    if (budget.fail && !result.error)
+      result.error = { message: `Test file took ${formatDuration(result.duration)}, over its ${formatDuration(budget.file)} budget`, type: 'DurationBudgetError' }
+  }
+
+  return result
+}
+
+function trend(duration: number, previous: number[] = []): string {
+  if (previous.length === 0)
+    return ''
+
+  const average = previous.reduce((total, value) => total + value, 0) / previous.length
+  const change = average > 0 ? Math.round(((duration - average) / average) * 100) : 0
+  const text = `avg ${formatDuration(average)} over ${previous.length} run${previous.length === 1 ? '' : 's'}, ${change >= 0 ? '+' : ''}${change}%`
+
+  return duration > average * regressionFactor
+    ? ` ${colors.red}(${text})${colors.reset}`
+    : ` ${colors.dim}(${text})${colors.reset}`
+}
+
+function row(duration: number, name: string, previous: number[] | undefined, overBudget?: boolean): string {
+  const budget = overBudget ? ` ${colors.yellow}over budget${colors.reset}` : ''
+  return `  ${formatDuration(duration).padStart(9)}  ${name}${budget}${trend(duration, previous)}`
+}
+
+/**
+ * Format the slowest tests and files of a run, compared with `history` from previous runs
+ */
+export function formatSlowReport(results: FileResult[], count: number, history: DurationHistory): string {
+  const tests = results
+    .flatMap(result => result.tests.filter(hasRun))
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, count)
+  const files = [...results]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, count)
+
+  return [
+    `${colors.cyan}Slowest ${tests.length === 1 ? 'test' : `${tests.length} tests`}:${colors.reset}`,
+    ...tests.map(test => row(test.duration, `${test.file} > ${testFullName(test)}`, history.tests[testHistoryKey(test)], test.overBudget)),
+    `${colors.cyan}Slowest ${files.length === 1 ? 'file' : `${files.length} files`}:${colors.reset}`,
+    ...files.map(result => row(result.duration, result.file, history.files[result.file], result.overBudget)),
+  ].join('\n')
+}
+
+/**
+ * Format the tests and files over budget, or an empty string when there are none
+ */
+export function formatBudgetReport(results: FileResult[], budget: DurationBudget): string {
+  const tests = results.flatMap(result => result.tests.filter(test => test.overBudget))
+  const files = results.filter(result => result.overBudget)
+  if (tests.length === 0 && files.length === 0)
+    return ''
+
+  const lines: string[] = []
+  if (tests.length > 0) {
+    lines.push(`${colors.yellow}${tests.length} test${tests.length === 1 ? '' : 's'} over the ${formatDuration(budget.test ?? 0)} budget:${colors.reset}`)
+    lines.push(...tests.map(test => row(test.duration, `${test.file} > ${testFullName(test)}`, undefined)))
+  }
+  if (files.length > 0) {
+    lines.push(`${colors.yellow}${files.length} file${files.length === 1 ? '' : 's'} over the ${formatDuration(budget.file ?? 0)} budget:${colors.reset}`)
+    lines.push(...files.map(result => row(result.duration, result.file, undefined)))
+  }
+
+  return lines.join('\n')
+}
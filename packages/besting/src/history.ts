@@ -0,0 +1,184 @@
+/**
+ * Run History
+ *
+ * State the runner keeps between runs in the project's `.besting/` directory.
+ */
+
+import type { FileResult } from './types'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { isFailedFile } from './results'
+import { escapeRegExp } from './tags'
+
+/**
+ * Directory, relative to the project root, where run state is stored
+ */
+export const historyDir = '.besting'
+
+/**
+ * A test file that failed in the last run
+ */
+export interface FailedFile {
+  /** Test file path relative to the project root */
+  file: string
+  /** Failed tests; empty when the file failed as a whole (e.g. it did not load) */
+  tests: Array<{ path: string[], name: string }>
+}
+
+/**
+ * Contents of `.besting/last-run.json`
+ */
+export interface LastRun {
+  timestamp: string
+  failures: FailedFile[]
+}
+
+function readJson<T>(rootDir: string, name: string): T | undefined {
+  const file = resolve(rootDir, historyDir, name)
+  if (!existsSync(file))
+    return undefined
+
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as T
+  }
+  catch {
+    // A corrupt state file is treated as missing
+    return undefined
+  }
+}
+
+function writeJson(rootDir: string, name: string, value: unknown): void {
+  const file = resolve(rootDir, historyDir, name)
+  mkdirSync(dirname(file), { recursive: true })
+  writeFileSync(file, `${JSON.stringify(value, null, 2)}\n`)
+}
+
+/**
+ * Read the failures recorded by the previous run
+ */
+export function readLastRun(rootDir: string): LastRun | undefined {
+  return readJson<LastRun>(rootDir, 'last-run.json')
+}
+
+/**
+ * Record the failures of a run. Tests that did not run this time keep their previously
+ * recorded failures, so a run filtered by file, name or tag does not forget them.
+ */
+export function writeLastRun(rootDir: string, results: FileResult[]): LastRun {
+  const testKey = (test: { path: string[], name: string }): string => [...test.path, test.name].join('\0')
+  const ranTests = new Map(results.map(result => [result.file, new Set(result.tests.map(testKey))]))
+
+  const failures = new Map<string, FailedFile>()
+  for (const failure of readLastRun(rootDir)?.failures ?? []) {
+    const ran = ranTests.get(failure.file)
+    if (!ran) {
+      failures.set(failure.file, failure)
+      continue
+    }
+    // A file that failed as a whole is settled once any of its tests ran
+    const tests = failure.tests.filter(test => !ran.has(testKey(test)))
+    if (failure.tests.length === 0 ? ran.size === 0 : tests.length > 0)
+      failures.set(failure.file, { file: failure.file, tests })
+  }
+
+  for (const result of results.filter(isFailedFile)) {
+    const failed = result.tests
+      .filter(test => test.status === 'fail')
+      .map(test => ({ path: test.path, name: test.name }))
+    // Without failed tests the file failed as a whole, and reruns completely
+    const kept = failures.get(result.file)?.tests ?? []
+    failures.set(result.file, { file: result.file, tests: failed.length > 0 ? [...kept, ...failed] : [] })
+  }
+
+  const lastRun: LastRun = {
+    timestamp: new Date().toISOString(),
+    failures: [...failures.values()],
+  }
+
+  writeJson(rootDir, 'last-run.json', lastRun)
+  return lastRun
+}
+
+/**
+ * Wall-clock duration in milliseconds of each test file's last run, keyed by relative path
+ */
+export type FileDurations = Record<string, number>
+
+/**
+ * Read the per-file durations recorded by previous runs
+ */
+export function readDurations(rootDir: string): FileDurations {
+  return readJson<FileDurations>(rootDir, 'durations.json') ?? {}
+}
+
+/**
+ * Record the duration of every file in a run, keeping entries for files that did not run
+ */
+export function writeDurations(rootDir: string, results: FileResult[]): FileDurations {
+  const durations = readDurations(rootDir)
+  for (const result of results)
+    durations[result.file] = Math.round(result.duration)
+
+  writeJson(rootDir, 'durations.json', durations)
+  return durations
+}
+
+/**
+ * Number of runs kept per file and test in the duration history
+ */
+export const durationHistoryLength = 10
+
+/**
+ * Durations in milliseconds of the last runs, oldest first, of each test file
+ * (keyed by relative path) and each test (keyed by `file > describe > test`)
+ */
+export interface DurationHistory {
+  files: Record<string, number[]>
+  tests: Record<string, number[]>
+}
+
+/**
+ * Read the duration history recorded by previous runs
+ */
+export function readDurationHistory(rootDir: string): DurationHistory {
+  const history = readJson<Partial<DurationHistory>>(rootDir, 'duration-history.json')
+  return { files: history?.files ?? {}, tests: history?.tests ?? {} }
+}
+
+/**
+ * Append the durations of a run to the history, keeping the last `durationHistoryLength` runs
+ */
+export function writeDurationHistory(rootDir: string, results: FileResult[]): DurationHistory {
+  const history = readDurationHistory(rootDir)
+  const append = (entries: Record<string, number[]>, key: string, duration: number): void => {
+    entries[key] = [...entries[key] ?? [], Math.round(duration * 100) / 100].slice(-durationHistoryLength)
+  }
+
+  for (const result of results) {
+    append(history.files, result.file, result.duration)
+    for (const test of result.tests) {
+      // Only tests that ran say anything about speed
+      if (test.status !== 'skip' && test.status !== 'todo')
+        append(history.tests, testHistoryKey(test), test.duration)
+    }
+  }
+
+  writeJson(rootDir, 'duration-history.json', history)
+  return history
+}
+
+/**
+ * Key of a test in the duration history
+ */
+export function testHistoryKey(test: { file: string, path: string[], name: string }): string {
+  return [test.file, ...test.path, test.name].join(' > ')
+}
+
+/**
+ * Build a `bun test -t` pattern matching exactly the given tests.
+ * Bun matches the pattern against the describe names and test name joined by spaces.
+ */
+export function testNamePattern(tests: Array<{ path: string[], name: string }>): string {
+  const names = tests.map(test => escapeRegExp([...test.path, test.name].join(' ')))
+  return `^(?:${names.join('|')})$`
+}
@@ -7,7 +7,11 @@ export * from './command'
 export * from './config'
 export * from './cookie'
 export * from './database'
+export * from './datasets'
 export * from './event'
+export * from './profiles'
+export * from './project'
+export * from './schema'
 export * from './test'
 export * from './types'
 export * from './url'
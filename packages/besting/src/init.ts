@@ -0,0 +1,221 @@
+/* eslint-disable no-console */
+
+/**
+ * Init
+ *
+ * `besting init` scaffolding: a config, example tests and a `test` script.
+ * Existing files are kept; an existing config can have the missing defaults merged in.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import process from 'node:process'
+import { findConfigFile } from './project'
+import { colors } from './reporters'
+
+export interface InitOptions {
+  /** Directory to scaffold in (defaults to the current working directory) */
+  cwd?: string
+  /** Overwrite existing files instead of keeping them */
+  force?: boolean
+  /** Asked before merging defaults into an existing config; without it the config is left alone */
+  confirm?: (question: string) => Promise<boolean>
+}
+
+/**
+ * Files touched by `initProject`, relative to the project directory
+ */
+export interface InitResult {
+  created: string[]
+  /** Existing files that received missing settings (the config) or a script (`package.json`) */
+  merged: string[]
+  skipped: string[]
+}
+
+/**
+ * Settings of a new config, as source text keyed by setting name
+ */
+export const configDefaults: Record<string, string> = {
+  roots: '[\'test\']',
+  reporters: '[\'default\']',
+  testTimeout: '5000',
+  retry: '0',
+}
+
+const testScript = 'besting test'
+
+function configTemplate(): string {
+  const settings = Object.entries(configDefaults).map(([key, value]) => `  ${key}: ${value},`)
+  return `import { defineConfig } from 'besting'
+
+export default defineConfig({
+${settings.join('\n')}
+})
+`
+}
+
+const exampleTest = `import { best, testGroup } from 'besting'
+
+const p = best()
+
+p.describe('math', () => {
+  p.test('adds numbers', () => {
+    p.it(1 + 1).toBe(2)
+  })
+
+  p.test('checks one value several ways', () => {
+    testGroup('Hello World', (str) => {
+      str.toContain('Hello')
+        .toStartWith('Hello')
+        .toEndWith('World')
+        .not
+        .toBeEmpty()
+    })
+  })
+})
+`
+
+const pageTest = `import { best, browse } from 'besting'
+
+const p = best()
+
+// A data URL keeps the example offline; point \`goto\` at your app instead
+const html = '<title>Welcome</title><h1>Hello from besting</h1><a href="/docs">Docs</a>'
+
+p.test('renders the welcome page', async () => {
+  await browse(async (page) => {
+    await page.goto(\`data:text/html,\${encodeURIComponent(html)}\`)
+    await page.assertTitle('Welcome')
+    await page.assertSee('Hello from besting')
+    await page.assertPresent('a[href="/docs"]')
+  })
+})
+`
+
+/**
+ * Files written by `besting init`, keyed by path relative to the project directory
+ */
+export const initFiles: Record<string, string> = {
+  'test/example.test.ts': exampleTest,
+  'test/page.test.ts': pageTest,
+}
+
+function hasSetting(source: string, key: string): boolean {
+  return new RegExp(`(?:^|[\\s{,])['"]?${key}['"]?\\s*:`, 'm').test(source)
+}
+
+// The closing brace of the exported object: the last `}` followed only by `)`,
+// a `satisfies`/`as` clause and `export default <name>`
+const configEnd = /\}(?=\s*\)?\s*(?:(?:satisfies|as)\s+\w+)?\s*;?\s*(?:export\s+default\s+\w+\s*;?\s*)?$)/g
+
+/**
+ * Add the settings missing from a config's source, keeping everything else as written.
+ * Returns `undefined` when the end of the exported object cannot be found.
+ */
+export function mergeConfigSource(source: string, defaults: Record<string, string> = configDefaults): string | undefined {
+  const missing = Object.entries(defaults).filter(([key]) => !hasSetting(source, key))
+  if (missing.length === 0)
+    return source
+
+  const end = [...source.matchAll(configEnd)].at(-1)?.index
+  if (end === undefined)
+    return undefined
+
+  const before = source.slice(0, end).trimEnd()
+  const separator = before.endsWith('{') || before.endsWith(',') ? '' : ','
+  const settings = missing.map(([key, value]) => `  ${key}: ${value},`).join('\n')
+  return `${before}${separator}\n${settings}\n${source.slice(end)}`
+}
+
+function mergeJsonConfig(source: string): string {
+  const config = JSON.parse(source) as Record<string, unknown>
+  for (const [key, value] of Object.entries(configDefaults)) {
+    if (!(key in config))
+      config[key] = JSON.parse(value.replace(/'/g, '"'))
+  }
+  return `${JSON.stringify(config, null, 2)}\n`
+}
+
+function writeFile(path: string, content: string): void {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, content)
+}
+
+async function initConfig(rootDir: string, options: InitOptions, result: InitResult): Promise<void> {
+  const existing = findConfigFile(rootDir)
+  if (!existing || (options.force && existing === 'besting.config.ts')) {
+    writeFile(join(rootDir, 'besting.config.ts'), configTemplate())
+    result.created.push('besting.config.ts')
+    return
+  }
+
+  const path = join(rootDir, existing)
+  const source = readFileSync(path, 'utf8')
+  const merged = existing.endsWith('.json') ? mergeJsonConfig(source) : mergeConfigSource(source)
+  if (merged === source || merged === undefined || !await options.confirm?.(`${existing} already exists. Merge the missing defaults into it?`)) {
+    result.skipped.push(existing)
+    return
+  }
+
+  writeFileSync(path, merged)
+  result.merged.push(existing)
+}
+
+function initPackageScript(rootDir: string, result: InitResult): void {
+  const path = join(rootDir, 'package.json')
+  if (!existsSync(path)) {
+    writeFile(path, `${JSON.stringify({ scripts: { test: testScript } }, null, 2)}\n`)
+    result.created.push('package.json')
+    return
+  }
+
+  const source = readFileSync(path, 'utf8')
+  const pkg = JSON.parse(source) as { scripts?: Record<string, string> }
+  if (pkg.scripts?.test) {
+    result.skipped.push('package.json')
+    return
+  }
+
+  pkg.scripts = { ...pkg.scripts, test: testScript }
+  const indent = source.match(/^[ \t]+/m)?.[0] ?? '  '
+  writeFileSync(path, `${JSON.stringify(pkg, null, indent)}\n`)
+  result.merged.push('package.json')
+}
+
+/**
+ * Scaffold besting into a project: `besting.config.ts`, example tests and a `test` script
+ */
+export async function initProject(options: InitOptions = {}): Promise<InitResult> {
+  const rootDir = options.cwd ?? process.cwd()
+  const result: InitResult = { created: [], merged: [], skipped: [] }
+
+  await initConfig(rootDir, options, result)
+
+  for (const [file, content] of Object.entries(initFiles)) {
+    const path = join(rootDir, file)
+    if (existsSync(path) && !options.force) {
+      result.skipped.push(file)
+      continue
+    }
+    writeFile(path, content)
+    result.created.push(file)
+  }
+
+  initPackageScript(rootDir, result)
+
+  return result
+}
+
+/**
+ * Print what `initProject` did
+ */
+export function printInitResult(result: InitResult): void {
+  for (const file of result.created)
+    console.log(`${colors.green}created${colors.reset} ${file}`)
+  for (const file of result.merged)
+    console.log(`${colors.cyan}merged${colors.reset}  ${file}`)
+  for (const file of result.skipped)
+    console.log(`${colors.dim}kept${colors.reset}    ${file}`)
+
+  console.log(`\nRun the tests with ${colors.cyan}besting test${colors.reset}`)
+}
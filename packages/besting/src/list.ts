@@ -0,0 +1,349 @@
+/**
+ * List
+ *
+ * `besting list`: the tests a run would include, collected statically from the
+ * test files' source. Nothing is executed, so only tests and describe blocks
+ * named by a literal are found; template literal names are listed as written.
+ */
+
+import type { RunOptions } from './runner'
+import { readFileSync } from 'node:fs'
+import process from 'node:process'
+import { colors } from './reporters'
+import { discoverTestFiles, relativeTestPath } from './runner'
+import { shardFiles } from './shard'
+import { combineNamePatterns, parseTags, taggedName, tagPattern } from './tags'
+
+/**
+ * A test found in a test file's source
+ */
+export interface ListedTest {
+  /** Names of the enclosing `describe` blocks, outermost first */
+  path: string[]
+  name: string
+  line: number
+  /** Tags of the test and its describe blocks, without the `@` */
+  tags?: string[]
+  /** Set for `.skip`, `.todo` and `.only` tests, including those inside such describe blocks */
+  mode?: 'skip' | 'todo' | 'only'
+}
+
+export interface ListedFile {
+  /** Test file path relative to the project root */
+  file: string
+  tests: ListedTest[]
+}
+
+const regexPrecedingChars = new Set('(,=:[!&|?{};+-*%<>~^'.split(''))
+const regexPrecedingWords = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'void', 'yield', 'await'])
+
+/**
+ * Blank out comments and the contents of strings, template literals and regular
+ * expressions (keeping their delimiters and every newline), so that the remaining
+ * code can be scanned for brackets and calls without being misled by them
+ */
+function maskSource(source: string): string {
+  const out = source.split('')
+  const blank = (from: number, to: number): void => {
+    for (let index = from; index < to; index++) {
+      if (out[index] !== '\n')
+        out[index] = ' '
+    }
+  }
+  let index = 0
+
+  // A `/` starts a regular expression where an expression may start, not after an operand
+  const startsRegExp = (): boolean => {
+    let before = index - 1
+    while (before >= 0 && /\s/.test(out[before]))
+      before--
+    if (before < 0 || regexPrecedingChars.has(out[before]))
+      return true
+
+    let wordStart = before
+    while (wordStart > 0 && /[\w$]/.test(out[wordStart - 1]))
+      wordStart--
+    return regexPrecedingWords.has(out.slice(wordStart, before + 1).join(''))
+  }
+
+  const skipString = (quote: string): void => {
+    const start = ++index
+    while (index < source.length && source[index] !== quote && source[index] !== '\n')
+      index += source[index] === '\\' ? 2 : 1
+    blank(start, index)
+    index++
+  }
+
+  // Template literals, including `${}` expressions with nested strings and templates
+  const skipTemplate = (): void => {
+    const start = ++index
+    let depth = 0
+    while (index < source.length) {
+      const char = source[index]
+      if (char === '\\') {
+        index += 2
+      }
+      else if (depth === 0 && char === '`') {
+        break
+      }
+      else if (char === '$' && source[index + 1] === '{') {
+        depth++
+        index += 2
+      }
+      else if (depth > 0 && char === '}') {
+        depth--
+        index++
+      }
+      else if (depth > 0 && (char === '\'' || char === '"')) {
+        const quote = char
+        index++
+        while (index < source.length && source[index] !== quote && source[index] !== '\n')
+          index += source[index] === '\\' ? 2 : 1
+        index++
+      }
+      else if (depth > 0 && char === '`') {
+        skipTemplate()
+      }
+      else {
+        index++
+      }
+    }
+    blank(start, index)
+    index++
+  }
+
+  while (index < source.length) {
+    const char = source[index]
+    const next = source[index + 1]
+
+    if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', index)
+      blank(index, end === -1 ? source.length : end)
+      index = end === -1 ? source.length : end
+    }
+    else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', index + 2)
+      blank(index, end === -1 ? source.length : end + 2)
+      index = end === -1 ? source.length : end + 2
+    }
+    else if (char === '\'' || char === '"') {
+      skipString(char)
+    }
+    else if (char === '`') {
+      skipTemplate()
+    }
+    else if (char === '/') {
+      if (startsRegExp()) {
+        const start = ++index
+        let inClass = false
+        while (index < source.length && source[index] !== '\n' && (inClass || source[index] !== '/')) {
+          if (source[index] === '[')
+            inClass = true
+          else if (source[index] === ']')
+            inClass = false
+          index += source[index] === '\\' ? 2 : 1
+        }
+        blank(start, index)
+      }
+      index++
+    }
+    else {
+      index++
+    }
+  }
+
+  return out.join('')
+}
+
+// Index of the bracket closing the one at `open`, in masked source
+function closingBracket(masked: string, open: number): number {
+  let depth = 0
+  for (let index = open; index < masked.length; index++) {
+    const char = masked[index]
+    if (char === '(' || char === '[' || char === '{')
+      depth++
+    else if (char === ')' || char === ']' || char === '}')
+      depth--
+    if (depth === 0)
+      return index
+  }
+  return masked.length
+}
+
+// Top-level arguments of the call whose parentheses are at `open` and `close`, as [start, end] ranges
+function callArguments(masked: string, open: number, close: number): Array<[number, number]> {
+  const args: Array<[number, number]> = []
+  let start = open + 1
+  for (let index = open + 1; index < close; index++) {
+    const char = masked[index]
+    if (char === '(' || char === '[' || char === '{') {
+      index = closingBracket(masked, index)
+    }
+    else if (char === ',') {
+      args.push([start, index])
+      start = index + 1
+    }
+  }
+  if (masked.slice(start, close).trim())
+    args.push([start, close])
+  return args
+}
+
+// The text of a string or template literal argument, or undefined when the argument is not a literal
+function literalText(source: string, masked: string, [start, end]: [number, number]): string | undefined {
+  const text = masked.slice(start, end).trim()
+  const quote = text[0]
+  if (text.length < 2 || !['\'', '"', '`'].includes(quote) || text.at(-1) !== quote || text.slice(1, -1).trim())
+    return undefined
+
+  const offset = start + masked.slice(start, end).indexOf(quote)
+  const raw = source.slice(offset + 1, offset + text.length - 1)
+  return quote === '`' ? raw : raw.replace(/\\(.)/g, '$1')
+}
+
+// Tags from a `{ tags: ['a', 'b'] }` options argument
+function optionTags(source: string, [start, end]: [number, number]): string[] {
+  const list = /\btags\s*:\s*\[([^\]]*)\]/.exec(source.slice(start, end))?.[1] ?? ''
+  return Array.from(list.matchAll(/(['"`])([^'"`]*)\1/g), match => match[2])
+}
+
+const modifierRegExp = /\s*\.\s*([\w$]+)/y
+const openRegExp = /\s*\(/y
+const curriedModifiers = new Set(['each', 'if', 'skipIf', 'todoIf', 'runIf'])
+// Conditional modifiers (`skipIf`, `todoIf`, `if`) depend on runtime values and leave the mode alone
+const modes: Record<string, ListedTest['mode']> = { skip: 'skip', todo: 'todo', only: 'only' }
+
+interface FoundCall {
+  kind: 'describe' | 'test'
+  name: string
+  start: number
+  end: number
+  mode?: ListedTest['mode']
+}
+
+/**
+ * Statically collect the tests of a test file from its source, without running it.
+ * Recognizes `describe`, `test` and `it` (also as methods, like `best().test`) with
+ * their modifiers, when the name is a string literal.
+ */
+export function collectTests(source: string): ListedTest[] {
+  const masked = maskSource(source)
+  const calls: FoundCall[] = []
+
+  for (const match of masked.matchAll(/(?<![\w$])(describe|test|it)(?![\w$])/g)) {
+    let index = match.index + match[0].length
+    let mode: ListedTest['mode']
+
+    // Modifier chain, e.g. `.skip`, `.each(table)` or `.if(condition)`
+    while (true) {
+      modifierRegExp.lastIndex = index
+      const modifier = modifierRegExp.exec(masked)
+      if (!modifier)
+        break
+      index = modifierRegExp.lastIndex
+      mode = modes[modifier[1]] ?? mode
+      openRegExp.lastIndex = index
+      if (curriedModifiers.has(modifier[1]) && openRegExp.test(masked))
+        index = closingBracket(masked, openRegExp.lastIndex - 1) + 1
+    }
+
+    openRegExp.lastIndex = index
+    if (!openRegExp.test(masked))
+      continue
+
+    const open = openRegExp.lastIndex - 1
+    const close = closingBracket(masked, open)
+    const args = callArguments(masked, open, close)
+    const name = args[0] && literalText(source, masked, args[0])
+    // A name and a body, except for todo tests; this leaves out calls like `pattern.test(value)`
+    if (name === undefined || (args.length < 2 && mode !== 'todo'))
+      continue
+
+    const options = args.length > 2 && masked.slice(...args[1]).trim().startsWith('{') ? args[1] : undefined
+    calls.push({
+      kind: match[1] === 'describe' ? 'describe' : 'test',
+      name: options ? taggedName(name, optionTags(source, options)) : name,
+      start: match.index,
+      end: close,
+      mode,
+    })
+  }
+
+  const describes = calls.filter(call => call.kind === 'describe')
+  return calls
+    .filter(call => call.kind === 'test')
+    .map((call) => {
+      const parents = describes.filter(describe => describe.start < call.start && call.end <= describe.end)
+      const path = parents.map(describe => describe.name)
+      const tags = parseTags([...path, call.name].join(' '))
+      // A skipped or todo describe block decides for everything inside it
+      const inherited = [...parents, call].map(found => found.mode)
+      const mode = inherited.find(found => found === 'skip' || found === 'todo') ?? inherited.find(Boolean)
+      return {
+        path,
+        name: call.name,
+        line: source.slice(0, call.start).split('\n').length,
+        ...(tags.length > 0 ? { tags } : {}),
+        ...(mode ? { mode } : {}),
+      }
+    })
+}
+
+/**
+ * List the test files and tests a run with these options would include,
+ * applying discovery, the shard, the name pattern and tags
+ */
+export function listTests(options: RunOptions = {}): ListedFile[] {
+  const rootDir = options.cwd ?? process.cwd()
+  let testFiles = discoverTestFiles(options)
+  if (options.shard)
+    testFiles = shardFiles(testFiles, options.shard, rootDir)
+
+  const pattern = combineNamePatterns(options.testNamePattern, tagPattern(options.tags, options.excludeTags))
+  const matches = pattern ? new RegExp(pattern) : undefined
+
+  return testFiles
+    .map(file => ({
+      file: relativeTestPath(file, rootDir),
+      tests: collectTests(readFileSync(file, 'utf8'))
+        .filter(test => !matches || matches.test([...test.path, test.name].join(' '))),
+    }))
+    // With a filter, files without a matching test would not run anything
+    .filter(file => !matches || file.tests.length > 0)
+}
+
+/**
+ * Format listed tests as a tree of files, describe blocks and tests
+ */
+export function formatTestList(files: ListedFile[]): string {
+  const lines: string[] = []
+
+  for (const { file, tests } of files) {
+    lines.push(`${colors.cyan}${file}${colors.reset}`)
+    let previous: string[] = []
+    for (const test of tests) {
+      // Print the describe blocks this test does not share with the previous one
+      let shared = 0
+      while (shared < previous.length && shared < test.path.length && previous[shared] === test.path[shared])
+        shared++
+      for (let depth = shared; depth < test.path.length; depth++)
+        lines.push(`${'  '.repeat(depth + 1)}${test.path[depth]}`)
+      previous = test.path
+
+      const mode = test.mode ? ` ${colors.dim}(${test.mode})${colors.reset}` : ''
+      lines.push(`${'  '.repeat(test.path.length + 1)}${test.name}${mode}`)
+    }
+  }
+
+  const count = files.reduce((total, file) => total + file.tests.length, 0)
+  lines.push('', `${count} test${count === 1 ? '' : 's'} in ${files.length} file${files.length === 1 ? '' : 's'}`)
+  return lines.join('\n')
+}
+
+/**
+ * Format listed tests as JSON, e.g. for generating a CI matrix
+ */
+export function formatTestListJson(files: ListedFile[]): string {
+  const tests = files.reduce((total, file) => total + file.tests.length, 0)
+  return `${JSON.stringify({ summary: { files: files.length, tests }, files }, null, 2)}\n`
+}
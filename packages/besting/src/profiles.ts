@@ -0,0 +1,91 @@
+/**
+ * Profiles
+ *
+ * Named profiles in `besting.config.ts` (`profiles: { ci: { workers: 2 } }`) are merged
+ * over the base config with `besting test --env ci`, and `.env.<profile>` is loaded
+ * into the environment of the runner and every test process.
+ */
+
+import type { BestingConfig } from './types'
+import { existsSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import process from 'node:process'
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function mergeDeep(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined)
+      continue
+    // Nested settings merge key by key; arrays and everything else replace the base value
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeDeep(merged[key] as Record<string, unknown>, value)
+      : value
+  }
+  return merged
+}
+
+/**
+ * Merge the named profile over the base config
+ */
+export function applyProfile(config: BestingConfig, profile: string): BestingConfig {
+  const profiles = config.profiles ?? {}
+  if (!Object.hasOwn(profiles, profile)) {
+    const available = Object.keys(profiles)
+    throw new Error(`Unknown env profile "${profile}"${available.length > 0 ? ` (available: ${available.join(', ')})` : ', no profiles are configured'}`)
+  }
+
+  return mergeDeep(config as Record<string, unknown>, profiles[profile] as Record<string, unknown>) as BestingConfig
+}
+
+/**
+ * Parse the `KEY=value` lines of a `.env` file. Values may be quoted; double-quoted
+ * values support `\n` escapes, and unquoted values end at a ` #` comment.
+ */
+export function parseEnv(content: string): Record<string, string> {
+  const values: Record<string, string> = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim().replace(/^export\s+/, '')
+    const separator = line.indexOf('=')
+    if (!line || line.startsWith('#') || separator === -1)
+      continue
+
+    const key = line.slice(0, separator).trim()
+    let value = line.slice(separator + 1).trim()
+    const quote = value[0]
+    if ((quote === '"' || quote === '\'') && value.endsWith(quote) && value.length > 1) {
+      value = value.slice(1, -1)
+      if (quote === '"')
+        value = value.replace(/\\n/g, '\n').replace(/\\"/g, '"')
+    }
+    else {
+      value = value.replace(/\s+#.*$/, '')
+    }
+
+    values[key] = value
+  }
+
+  return values
+}
+
+/**
+ * Load `.env.<profile>` from the project root into `process.env`. Variables that are
+ * already set win, like with Bun's own `.env` loading. Returns the values of the file.
+ */
+export function loadProfileEnv(rootDir: string, profile: string): Record<string, string> {
+  const path = join(rootDir, `.env.${profile}`)
+  if (!existsSync(path))
+    return {}
+
+  const values = parseEnv(readFileSync(path, 'utf8'))
+  for (const [key, value] of Object.entries(values)) {
+    if (process.env[key] === undefined)
+      process.env[key] = value
+  }
+
+  return values
+}
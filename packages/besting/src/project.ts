@@ -0,0 +1,37 @@
+/**
+ * Project
+ *
+ * Locating the project a besting command runs in.
+ */
+
+import { existsSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import process from 'node:process'
+
+/**
+ * Config file names, in the order they are looked for
+ */
+export const configFiles: string[] = ['besting.config.ts', 'besting.config.js', 'besting.config.mjs', 'besting.config.json']
+
+/**
+ * The config file in `dir`, if there is one
+ */
+export function findConfigFile(dir: string): string | undefined {
+  return configFiles.find(file => existsSync(join(dir, file)))
+}
+
+/**
+ * Find the project root: the nearest directory, from `cwd` upwards, with a besting config or a `package.json`
+ */
+export function findProjectRoot(cwd: string = process.cwd()): string {
+  let dir = resolve(cwd)
+  while (true) {
+    if (findConfigFile(dir) || existsSync(join(dir, 'package.json')))
+      return dir
+
+    const parent = dirname(dir)
+    if (parent === dir)
+      return resolve(cwd)
+    dir = parent
+  }
+}
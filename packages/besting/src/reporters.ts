@@ -0,0 +1,426 @@
+/* eslint-disable no-console */
+
+/**
+ * Reporters
+ *
+ * Built-in reporters for the console, JUnit XML, JSON and NDJSON. Each one implements
+ * the `Reporter` interface, so custom reporters loaded from config plug in the same way.
+ */
+
+import type { BuiltinReporterName, FileResult, Reporter, ReporterEntry, ReporterFactory, ReporterOptions, RunSummary, TestResult } from './types'
+import { appendFileSync, existsSync, mkdirSync, writeFileSync } from 'node:fs'
+import { hostname } from 'node:os'
+import { dirname, extname, resolve } from 'node:path'
+import process from 'node:process'
+import { pathToFileURL } from 'node:url'
+import { summarize } from './results'
+
+// ANSI color codes for pretty formatting
+export const colors: Record<'reset' | 'green' | 'red' | 'dim' | 'cyan' | 'yellow', string> = {
+  reset: '\x1B[0m',
+  green: '\x1B[32m',
+  red: '\x1B[31m',
+  dim: '\x1B[2m',
+  cyan: '\x1B[36m',
+  yellow: '\x1B[33m',
+}
+
+/**
+ * Format milliseconds the way Bun prints durations, e.g. `12.50ms` or `1.20s`
+ */
+export function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(2)}ms`
+}
+
+function printTest(test: TestResult): void {
+  const name = [...test.path, test.name].join(` ${colors.dim}>${colors.reset} `)
+
+  const budget = test.overBudget ? ` ${colors.yellow}(over budget)${colors.reset}` : ''
+
+  if (test.status === 'pass') {
+    console.log(`${colors.green}✓${colors.reset} ${name} ${colors.dim}[${formatDuration(test.duration)}]${colors.reset}${budget}`)
+  }
+  else if (test.status === 'flaky') {
+    const retries = test.retries ?? 1
+    console.log(`${colors.yellow}✓${colors.reset} ${name} ${colors.dim}[${formatDuration(test.duration)}]${colors.reset} ${colors.yellow}(flaky, passed after ${retries} ${retries === 1 ? 'retry' : 'retries'})${colors.reset}${budget}`)
+  }
+  else if (test.status === 'fail') {
+    console.log(`${colors.red}✗${colors.reset} ${name} ${colors.dim}[${formatDuration(test.duration)}]${colors.reset}${budget}`)
+    if (test.error) {
+      console.log(`${colors.red}error: ${test.error.message}${colors.reset}`)
+      const location = test.error.stack?.split('\n').filter(line => /^\s*at /.test(line)).join('\n')
+      if (location)
+        console.log(`${colors.dim}${location}${colors.reset}`)
+    }
+  }
+  else {
+    console.log(`${colors.yellow}»${colors.reset} ${name}${test.status === 'todo' ? ` ${colors.dim}(todo)${colors.reset}` : ''}`)
+  }
+}
+
+function printCounts(summary: RunSummary): void {
+  if (summary.passed > 0)
+    console.log(`${colors.green} ${summary.passed} pass${colors.reset}`)
+  if (summary.flaky > 0)
+    console.log(`${colors.yellow} ${summary.flaky} flaky${colors.reset}`)
+  if (summary.failed > 0)
+    console.log(`${colors.red} ${summary.failed} fail${colors.reset}`)
+  if (summary.skipped > 0)
+    console.log(`${colors.yellow} ${summary.skipped} skip${colors.reset}`)
+  if (summary.todo > 0)
+    console.log(`${colors.yellow} ${summary.todo} todo${colors.reset}`)
+  console.log(` ${summary.assertions} expect() calls`)
+  console.log(`Ran ${summary.tests} tests across ${summary.files} files.`)
+}
+
+/**
+ * Colored console output in the style of Bun's own test runner
+ */
+export function defaultReporter(): Reporter {
+  return {
+    onRunStart() {
+      // Get Bun revision in short form for display
+      const revision = Bun.revision?.substring(0, 8) || ''
+      console.log(`bun test v${Bun.version}${revision ? ` (${revision})` : ''}${colors.reset}\n`)
+    },
+    onFileEnd(result) {
+      console.log(`${result.file}:`)
+
+      for (const test of result.tests)
+        printTest(test)
+
+      if (result.error) {
+        console.log(`${colors.red}${result.error.message}${colors.reset}`)
+        if (result.error.stack)
+          console.error(result.error.stack)
+      }
+
+      console.log()
+      printCounts(summarize([result]))
+      console.log()
+    },
+    onRunEnd(results, summary) {
+      // Print final summary for multiple files
+      if (results.length > 1)
+        printCounts(summary)
+      if (summary.skippedFiles !== undefined)
+        console.log(`${colors.yellow}Bailed out after a failure: ${summary.skippedFiles} test file${summary.skippedFiles === 1 ? '' : 's'} skipped${colors.reset}`)
+    },
+  }
+}
+
+/**
+ * Escape a value for use in XML text or attribute content.
+ * Characters that are not allowed in XML 1.0 at all are dropped.
+ */
+export function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function stripAnsi(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return value.replace(/\x1B\[[0-9;]*m/g, '')
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(6).replace(/\.?0+$/, '') || '0'
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('')
+}
+
+function formatJUnitSuite(result: FileResult, indent: string): string[] {
+  const summary = summarize([result], result.duration)
+  const errors = result.error ? 1 : 0
+  const lines: string[] = []
+
+  lines.push(`${indent}<testsuite${attributes({
+    name: result.file,
+    file: result.file,
+    tests: summary.tests + errors,
+    assertions: summary.assertions,
+    failures: summary.failed,
+    errors,
+    skipped: summary.skipped + summary.todo,
+    time: seconds(result.duration),
+    hostname: hostname(),
+  })}>`)
+
+  for (const test of result.tests) {
+    const testCase = `${indent}  <testcase${attributes({
+      name: test.name,
+      classname: test.path.join(' > '),
+      time: seconds(test.duration),
+      file: test.file,
+      line: test.line,
+      assertions: test.assertions,
+      retries: test.retries,
+    })}`
+
+    // One `tag` property per tag lets CI dashboards group test cases by tag
+    const properties = test.tags?.length
+      ? [`${indent}    <properties>`, ...test.tags.map(tag => `${indent}      <property${attributes({ name: 'tag', value: tag })} />`), `${indent}    </properties>`]
+      : []
+
+    if (test.status === 'pass' && properties.length === 0) {
+      lines.push(`${testCase} />`)
+      continue
+    }
+
+    lines.push(`${testCase}>`)
+    lines.push(...properties)
+    if (test.status === 'fail') {
+      const error = test.error ?? { message: 'Test failed' }
+      lines.push(`${indent}    <failure${attributes({ message: error.message, type: error.type })}>${escapeXml(error.stack ?? error.message)}</failure>`)
+    }
+    else if (test.status === 'flaky') {
+      // Surefire's marker for a test that passed on a rerun, understood by most CI dashboards
+      const error = test.error ?? { message: 'Test failed before passing on retry' }
+      lines.push(`${indent}    <flakyFailure${attributes({ message: error.message, type: error.type })}>${escapeXml(error.stack ?? error.message)}</flakyFailure>`)
+    }
+    else if (test.status !== 'pass') {
+      lines.push(`${indent}    <skipped${attributes({ message: test.status === 'todo' ? 'TODO' : undefined })} />`)
+    }
+    lines.push(`${indent}  </testcase>`)
+  }
+
+  if (result.error) {
+    // A file that failed to load is reported as a single errored test case
+    lines.push(`${indent}  <testcase${attributes({ name: result.file, classname: '', time: seconds(result.duration), file: result.file })}>`)
+    lines.push(`${indent}    <error${attributes({ message: result.error.message, type: result.error.type })}>${escapeXml(result.error.stack ?? result.error.message)}</error>`)
+    lines.push(`${indent}  </testcase>`)
+  }
+
+  const stdout = stripAnsi(result.stdout).trim()
+  const stderr = stripAnsi(result.stderr).trim()
+  if (stdout)
+    lines.push(`${indent}  <system-out>${escapeXml(stdout)}</system-out>`)
+  if (stderr)
+    lines.push(`${indent}  <system-err>${escapeXml(stderr)}</system-err>`)
+
+  lines.push(`${indent}</testsuite>`)
+  return lines
+}
+
+/**
+ * Format results as a JUnit XML document with one `<testsuite>` per file
+ * and one `<testcase>` per test.
+ */
+export function formatJUnitReport(results: FileResult[], duration: number = results.reduce((total, result) => total + result.duration, 0)): string {
+  const summary = summarize(results, duration)
+  const errors = results.filter(result => result.error).length
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attributes({
+      name: 'besting',
+      tests: summary.tests + errors,
+      assertions: summary.assertions,
+      failures: summary.failed,
+      errors,
+      skipped: summary.skipped + summary.todo,
+      time: seconds(duration),
+    })}>`,
+    ...results.flatMap(result => formatJUnitSuite(result, '  ')),
+    '</testsuites>',
+  ]
+
+  return `${lines.join('\n')}\n`
+}
+
+function serializeTest(test: TestResult): TestResult {
+  return {
+    file: test.file,
+    path: test.path,
+    name: test.name,
+    status: test.status,
+    duration: test.duration,
+    line: test.line,
+    assertions: test.assertions,
+    error: test.error,
+    retries: test.retries,
+    overBudget: test.overBudget,
+    tags: test.tags,
+  }
+}
+
+function serializeFile(result: FileResult): Record<string, unknown> {
+  return {
+    file: result.file,
+    duration: result.duration,
+    exitCode: result.exitCode,
+    error: result.error,
+    overBudget: result.overBudget,
+    summary: summarize([result], result.duration),
+    tests: result.tests.map(serializeTest),
+    stdout: result.stdout,
+    stderr: result.stderr,
+  }
+}
+
+/**
+ * Format results as a single JSON document with the run summary and every test
+ */
+export function formatJsonReport(results: FileResult[], summary: RunSummary): string {
+  return `${JSON.stringify({ summary, files: results.map(serializeFile) }, null, 2)}\n`
+}
+
+/**
+ * Write a report to `outputFile` (relative to `rootDir`), or to stdout without one
+ */
+function writeReport(rootDir: string, outputFile: string | undefined, content: string, append = false): void {
+  if (!outputFile) {
+    process.stdout.write(content)
+    return
+  }
+
+  const target = resolve(rootDir, outputFile)
+  mkdirSync(dirname(target), { recursive: true })
+  if (append)
+    appendFileSync(target, content)
+  else
+    writeFileSync(target, content)
+}
+
+/**
+ * JUnit XML reporter, written once the run has finished
+ */
+export function junitReporter(options: ReporterOptions = {}): Reporter {
+  let rootDir = process.cwd()
+
+  return {
+    onRunStart(context) {
+      rootDir = context.rootDir
+    },
+    onRunEnd(results, summary) {
+      writeReport(rootDir, options.outputFile, formatJUnitReport(results, summary.duration))
+    },
+  }
+}
+
+/**
+ * JSON reporter, written as one summary document once the run has finished
+ */
+export function jsonReporter(options: ReporterOptions = {}): Reporter {
+  let rootDir = process.cwd()
+
+  return {
+    onRunStart(context) {
+      rootDir = context.rootDir
+    },
+    onRunEnd(results, summary) {
+      writeReport(rootDir, options.outputFile, formatJsonReport(results, summary))
+    },
+  }
+}
+
+/**
+ * Newline-delimited JSON reporter that streams one event per line as the run progresses
+ */
+export function ndjsonReporter(options: ReporterOptions = {}): Reporter {
+  let rootDir = process.cwd()
+
+  const write = (event: Record<string, unknown>, append = true): void => {
+    writeReport(rootDir, options.outputFile, `${JSON.stringify({ ...event, timestamp: Date.now() })}\n`, append)
+  }
+
+  return {
+    onRunStart(context) {
+      rootDir = context.rootDir
+      write({ type: 'runStart', files: context.files, workers: context.workers }, false)
+    },
+    onFileStart(file) {
+      write({ type: 'fileStart', file })
+    },
+    onTestResult(test) {
+      write({ type: 'testEnd', ...serializeTest(test) })
+    },
+    onFileEnd(result) {
+      const { tests: _tests, ...file } = serializeFile(result)
+      write({ type: 'fileEnd', ...file })
+    },
+    onRunEnd(_results, summary) {
+      write({ type: 'runEnd', summary })
+    },
+  }
+}
+
+/**
+ * Factories for the reporters that can be selected by name
+ */
+export const builtinReporters: Record<BuiltinReporterName, ReporterFactory> = {
+  default: defaultReporter,
+  junit: junitReporter,
+  json: jsonReporter,
+  ndjson: ndjsonReporter,
+}
+
+/**
+ * Create a built-in reporter by name
+ */
+export function createReporter(name: string, options: ReporterOptions = {}): Reporter {
+  const factory = builtinReporters[name as BuiltinReporterName]
+  if (!factory)
+    throw new Error(`Unknown reporter "${name}". Built-in reporters: ${Object.keys(builtinReporters).join(', ')}`)
+
+  return factory(options)
+}
+
+function isReporter(value: unknown): value is Reporter {
+  return typeof value === 'object' && value !== null
+}
+
+// A reporter that is not a built-in name is only treated as a module when it looks like a path
+function isModulePath(name: string): boolean {
+  return /[\\/]/.test(name) || extname(name) !== ''
+}
+
+/**
+ * Import a reporter module. Its default export (or a named `reporter` export)
+ * must be a `Reporter` object or a factory returning one.
+ */
+export async function loadReporterModule(path: string, rootDir: string, options: ReporterOptions = {}): Promise<Reporter> {
+  const file = resolve(rootDir, path)
+  if (!existsSync(file))
+    throw new Error(`Reporter module "${path}" not found. Built-in reporters: ${Object.keys(builtinReporters).join(', ')}`)
+
+  const module = await import(pathToFileURL(file).href)
+  const exported: unknown = module.default ?? module.reporter
+
+  const reporter = typeof exported === 'function' ? await (exported as ReporterFactory)(options) : exported
+  if (!isReporter(reporter))
+    throw new Error(`Reporter module "${path}" must export a reporter object or a function returning one`)
+
+  return reporter
+}
+
+/**
+ * Resolve reporter entries from config or the CLI into reporter instances
+ */
+export async function resolveReporters(entries: ReporterEntry[], rootDir: string): Promise<Reporter[]> {
+  const reporters: Reporter[] = []
+
+  for (const entry of entries) {
+    if (typeof entry === 'string' || Array.isArray(entry)) {
+      const [name, options = {}] = typeof entry === 'string' ? [entry] : entry
+      // Unknown names that do not look like a path fail with the list of built-in reporters
+      reporters.push(isModulePath(name) ? await loadReporterModule(name, rootDir, options) : createReporter(name, options))
+    }
+    else {
+      reporters.push(entry)
+    }
+  }
+
+  return reporters
+}
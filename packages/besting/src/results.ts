@@ -0,0 +1,266 @@
+/**
+ * Test Results
+ *
+ * Builds the typed result model from the JUnit XML that `bun test --reporter=junit`
+ * writes, so reporters and summaries never depend on Bun's console output format.
+ */
+
+import type { FileResult, RunSummary, TestError, TestResult, TestStatus } from './types'
+import { parseTags } from './tags'
+
+/**
+ * Minimal XML element tree, enough to walk a JUnit report
+ */
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+const entities: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+export function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? Number.parseInt(entity.slice(2), 16)
+        : Number.parseInt(entity.slice(1), 10)
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    }
+    return entities[entity] ?? match
+  })
+}
+
+/**
+ * Parse an XML document into an element tree and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack: XmlElement[] = [root]
+  const tagPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const current = stack[stack.length - 1]
+    current.text += decodeXmlEntities(xml.slice(lastIndex, match.index))
+    lastIndex = tagPattern.lastIndex
+
+    const [, cdata, closing, name, rawAttributes, selfClosing] = match
+
+    if (cdata !== undefined) {
+      current.text += cdata
+      continue
+    }
+
+    // Comments, processing instructions and doctypes
+    if (!name)
+      continue
+
+    if (closing) {
+      if (stack.length > 1 && current.name === name)
+        stack.pop()
+      continue
+    }
+
+    const element: XmlElement = { name, attributes: {}, children: [], text: '' }
+    for (const attribute of (rawAttributes ?? '').matchAll(attributePattern))
+      element.attributes[attribute[1]] = decodeXmlEntities(attribute[2] ?? attribute[3] ?? '')
+
+    current.children.push(element)
+    if (!selfClosing)
+      stack.push(element)
+  }
+
+  return root.children[0] ?? root
+}
+
+function toMilliseconds(seconds: string | undefined): number {
+  const value = Number.parseFloat(seconds ?? '0')
+  return Number.isNaN(value) ? 0 : value * 1000
+}
+
+function failureError(failure: XmlElement): TestError {
+  const message = (failure.attributes.message ?? '').trim()
+  const stack = failure.text.trim()
+  return {
+    message: message || stack.split('\n')[0] || 'Test failed',
+    stack: stack || undefined,
+    type: failure.attributes.type,
+  }
+}
+
+function testCaseStatus(testCase: XmlElement): Pick<TestResult, 'status' | 'error'> {
+  const failure = testCase.children.find(child => child.name === 'failure' || child.name === 'error')
+  if (failure)
+    return { status: 'fail', error: failureError(failure) }
+
+  // Surefire's marker for a test that passed on a rerun
+  const flakyFailure = testCase.children.find(child => child.name === 'flakyFailure')
+  if (flakyFailure)
+    return { status: 'flaky', error: failureError(flakyFailure) }
+
+  const skipped = testCase.children.find(child => child.name === 'skipped')
+  if (skipped) {
+    const status: TestStatus = skipped.attributes.message === 'TODO' ? 'todo' : 'skip'
+    return { status }
+  }
+
+  return { status: 'pass' }
+}
+
+function collectTestCases(suite: XmlElement, file: string, path: string[], results: TestResult[]): void {
+  for (const child of suite.children) {
+    if (child.name === 'testsuite') {
+      collectTestCases(child, file, [...path, child.attributes.name ?? ''], results)
+    }
+    else if (child.name === 'testcase') {
+      const line = Number.parseInt(child.attributes.line ?? '', 10)
+      const retries = Number.parseInt(child.attributes.retries ?? '', 10)
+      // Flat reports (like besting's own) carry the describe path in `classname` instead of nesting
+      const classname = child.attributes.classname ?? ''
+      const testPath = path.length === 0 && classname ? classname.split(' > ') : path
+      const name = child.attributes.name ?? ''
+      const tags = parseTags([...testPath, name].join(' '))
+      results.push({
+        file,
+        path: testPath,
+        name,
+        duration: toMilliseconds(child.attributes.time),
+        line: Number.isNaN(line) ? undefined : line,
+        assertions: Number.parseInt(child.attributes.assertions ?? '0', 10) || 0,
+        ...testCaseStatus(child),
+        ...(Number.isNaN(retries) ? {} : { retries }),
+        ...(tags.length > 0 ? { tags } : {}),
+      })
+    }
+  }
+}
+
+/**
+ * Convert a JUnit report for a single test file into test results.
+ *
+ * Bun nests one `<testsuite>` per file and one per `describe` block, so the
+ * nesting below the file suite becomes the describe path of each test.
+ * Reports without nesting fall back to the `classname` attribute.
+ */
+export function parseJUnitReport(xml: string, file: string): TestResult[] {
+  const root = parseXml(xml)
+  const fileSuites = root.name === 'testsuites'
+    ? root.children.filter(child => child.name === 'testsuite')
+    : [root]
+
+  const results: TestResult[] = []
+  for (const suite of fileSuites)
+    collectTestCases(suite, file, [], results)
+
+  return results
+}
+
+function childText(element: XmlElement, name: string): string {
+  return element.children.find(child => child.name === name)?.text.trim() ?? ''
+}
+
+/**
+ * Convert a multi-file JUnit report (such as besting's own `--reporter junit` output)
+ * into file results, one per top-level `<testsuite>`
+ */
+export function parseJUnitFileResults(xml: string): FileResult[] {
+  const root = parseXml(xml)
+  const suites = root.name === 'testsuites' ? root.children.filter(child => child.name === 'testsuite') : [root]
+
+  return suites.map((suite) => {
+    const file = suite.attributes.file ?? suite.attributes.name ?? ''
+    // besting reports a file that failed to load as a test case named after the file with an <error>
+    const loadError = suite.children.find(child => child.name === 'testcase'
+      && child.attributes.name === file
+      && child.children.some(grandchild => grandchild.name === 'error'))
+
+    const tests: TestResult[] = []
+    collectTestCases({ ...suite, children: suite.children.filter(child => child !== loadError) }, file, [], tests)
+
+    const result: FileResult = {
+      file,
+      tests,
+      duration: toMilliseconds(suite.attributes.time),
+      exitCode: 0,
+      stdout: childText(suite, 'system-out'),
+      stderr: childText(suite, 'system-err'),
+    }
+
+    if (loadError) {
+      const error = testCaseStatus(loadError).error
+      result.error = error && { message: error.message, stack: error.stack, type: error.type }
+    }
+    if (result.error || tests.some(test => test.status === 'fail'))
+      result.exitCode = 1
+
+    return result
+  })
+}
+
+/**
+ * Full display name of a test, e.g. `outer > inner > does something`
+ */
+export function testFullName(test: TestResult): string {
+  return [...test.path, test.name].join(' > ')
+}
+
+/**
+ * Whether a file counts as failed: a failing test, a load error or a non-zero exit
+ */
+export function isFailedFile(file: FileResult): boolean {
+  return file.exitCode !== 0 || file.error !== undefined || file.tests.some(test => test.status === 'fail')
+}
+
+/**
+ * Aggregate counts over a set of file results
+ */
+export function summarize(files: FileResult[], duration = 0): RunSummary {
+  const summary: RunSummary = {
+    files: files.length,
+    failedFiles: 0,
+    tests: 0,
+    passed: 0,
+    flaky: 0,
+    failed: 0,
+    skipped: 0,
+    todo: 0,
+    assertions: 0,
+    duration,
+  }
+
+  for (const file of files) {
+    if (isFailedFile(file))
+      summary.failedFiles++
+
+    for (const test of file.tests) {
+      summary.tests++
+      summary.assertions += test.assertions
+      if (test.status === 'pass')
+        summary.passed++
+      else if (test.status === 'flaky')
+        summary.flaky++
+      else if (test.status === 'fail')
+        summary.failed++
+      else if (test.status === 'skip')
+        summary.skipped++
+      else
+        summary.todo++
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,587 @@
+/* eslint-disable no-console */
+
+/**
+ * Custom test runner that runs each test file individually using Bun's test runner.
+ * Results are read from each child's JUnit report rather than its console output.
+ */
+
+import type { GlobalSetupSession } from './setup'
+import type { ShardSpec } from './shard'
+import type { CoverageConfig, DurationBudget, FileResult, Reporter, ReporterEntry } from './types'
+import { Glob, spawn } from 'bun'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs'
+import { availableParallelism, tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import process from 'node:process'
+import { reportCoverage } from './coverage'
+import { applyDurationBudget, durationBudget, formatBudgetReport, formatSlowReport } from './durations'
+import { readDurationHistory, readLastRun, testNamePattern, writeDurationHistory, writeDurations, writeLastRun } from './history'
+import { colors, resolveReporters } from './reporters'
+import { isFailedFile, parseJUnitReport, summarize } from './results'
+import { runGlobalSetup } from './setup'
+import { shardFiles } from './shard'
+import { combineNamePatterns, tagPattern } from './tags'
+
+/**
+ * Options for a test run
+ */
+export interface RunOptions {
+  /** Path substrings used to filter the discovered test files */
+  paths?: string[]
+  /** Directory to discover test files from (defaults to the current working directory) */
+  cwd?: string
+  /** Number of test files run concurrently (defaults to the CPU count) */
+  workers?: number
+  /**
+   * Reporter by name or module path, overriding `reporters`. Without `outputFile`
+   * it replaces the console output, otherwise it runs alongside it.
+   */
+  reporter?: string
+  /** File the `reporter` writes to; without it the report goes to stdout */
+  outputFile?: string
+  /** Reporters receiving every runner event (defaults to the console reporter) */
+  reporters?: ReporterEntry[]
+  /** Rerun only the files and tests that failed in the previous run */
+  onlyFailures?: boolean
+  /** Only run tests whose full name (describe names and test name joined by spaces) matches this regular expression */
+  testNamePattern?: string
+  /** Only run tests tagged with any of these tags (`@name` words in the test or describe names) */
+  tags?: string[]
+  /** Skip tests tagged with any of these tags */
+  excludeTags?: string[]
+  /** Run only this shard of the discovered files, e.g. `{ index: 2, total: 5 }` */
+  shard?: ShardSpec
+  /** Directories, relative to `cwd`, searched for test files (defaults to `test` and `examples`) */
+  roots?: string[]
+  /** Globs, relative to `cwd`, a test file must match (defaults to `.test` and `.spec` files) */
+  include?: string[]
+  /** Globs, relative to `cwd`, of files and directories to skip (defaults to `node_modules`) */
+  exclude?: string[]
+  /** Timeout of each test in milliseconds */
+  testTimeout?: number
+  /** Timeout of each hook in milliseconds, for hooks that do not set their own */
+  hookTimeout?: number
+  /** Rerun failing tests up to this many times, reporting the ones that pass as flaky */
+  retry?: number
+  /**
+   * Stop the run after this many failed tests (a file that fails as a whole counts as one):
+   * files still running are cancelled and the remaining files are skipped
+   */
+  bail?: number
+  /** Modules preloaded into every test process, relative to `cwd` */
+  setupFiles?: string[]
+  /** Module run once before any test file, relative to `cwd`; see `runGlobalSetup` */
+  globalSetup?: string
+  /** Module run once after all test files, relative to `cwd` */
+  globalTeardown?: string
+  /** Coverage collection; only collected when `coverage.enabled` is set */
+  coverage?: CoverageConfig
+  /** Print this many of the slowest tests and files after the run */
+  slowest?: number
+  /** Duration budget; a number is the budget of each test in milliseconds */
+  maxDuration?: number | DurationBudget
+  verbose?: boolean
+}
+
+/**
+ * Per-file options for a single `bun test` process
+ */
+export interface FileRunOptions {
+  /** Only run tests whose full name (describe names and test name joined by spaces) matches */
+  testNamePattern?: string
+  /** Timeout of each test and hook in milliseconds */
+  timeout?: number
+  /** Absolute paths of modules to preload before the test file */
+  preload?: string[]
+  /** Collect LCOV coverage from the process */
+  coverage?: boolean
+  /** Kills the process when aborted */
+  signal?: AbortSignal
+}
+
+/**
+ * Source of a module, preloaded into a test process, that gives every hook without a
+ * timeout of its own `timeout` milliseconds. Bun gives hooks the test timeout otherwise.
+ */
+export function hookTimeoutPreload(timeout: number): string {
+  return `import * as bunTest from 'bun:test'
+
+const withTimeout = hook => (fn, options) => hook(fn, options ?? ${timeout})
+
+bunTest.mock.module('bun:test', () => ({
+  ...bunTest,
+  beforeAll: withTimeout(bunTest.beforeAll),
+  beforeEach: withTimeout(bunTest.beforeEach),
+  afterEach: withTimeout(bunTest.afterEach),
+  afterAll: withTimeout(bunTest.afterAll),
+}))
+`
+}
+
+/**
+ * Default directories searched for test files
+ */
+export const defaultRoots: string[] = ['test', 'examples']
+
+/**
+ * Default globs a test file must match
+ */
+export const defaultInclude: string[] = ['**/*.{test,spec}.{ts,js,tsx,jsx}']
+
+/**
+ * Default globs of files and directories never searched
+ */
+export const defaultExclude: string[] = ['node_modules']
+
+/**
+ * Directories searched for test files, relative to the project root: `roots`, or when only
+ * `include` is set the directories each glob starts with, up to its first wildcard
+ * (the project root for a glob starting with one)
+ */
+export function searchRoots(options: RunOptions = {}): string[] {
+  if (options.roots)
+    return options.roots
+  if (!options.include)
+    return defaultRoots
+
+  const roots = options.include.map((pattern) => {
+    const segments = pattern.replace(/^\.\//, '').split('/')
+    const wildcard = segments.findIndex(segment => /[*?{}[\]!]/.test(segment))
+    // A glob without wildcards names a single file, found from its directory
+    const prefix = segments.slice(0, wildcard === -1 ? -1 : wildcard)
+    return prefix.length > 0 ? prefix.join('/') : '.'
+  })
+  return [...new Set(roots)]
+}
+
+/**
+ * Compile exclude globs into a matcher for paths relative to the project root.
+ * A glob without a slash matches a file or directory name at any depth (like `.gitignore`),
+ * and a glob matching a directory excludes everything inside it.
+ */
+export function excludeMatcher(exclude: string[] = defaultExclude): (relativePath: string, isDirectory?: boolean) => boolean {
+  const globs = exclude.map(pattern => new Glob(pattern.includes('/') ? pattern.replace(/^\.\//, '') : `**/${pattern}`))
+
+  return (relativePath, isDirectory = false) => {
+    const segments = relativePath.split(/[\\/]/)
+    return segments.some((_segment, index) => {
+      const path = segments.slice(0, index + 1).join('/')
+      const directory = isDirectory || index < segments.length - 1
+      return globs.some(glob => glob.match(path) || (directory && glob.match(`${path}/`)))
+    })
+  }
+}
+
+/**
+ * Run `task` over `items` with at most `concurrency` tasks in flight.
+ *
+ * `onResult` is called in input order: a result is held back until every item
+ * before it has finished, so buffered output prints in a stable order.
+ */
+export async function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, index: number) => void,
+): Promise<R[]> {
+  const results: R[] = Array.from({ length: items.length })
+  const done: boolean[] = Array.from({ length: items.length }, () => false)
+  let nextIndex = 0
+  let nextToEmit = 0
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await task(items[index], index)
+      done[index] = true
+
+      while (nextToEmit < items.length && done[nextToEmit]) {
+        onResult?.(results[nextToEmit], nextToEmit)
+        nextToEmit++
+      }
+    }
+  }
+
+  const size = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: size }, () => worker()))
+
+  return results
+}
+
+/**
+ * Run a single test file in its own `bun test` process and collect its results
+ */
+export async function runFile(testFile: string, rootDir: string, reportDir: string, fileOptions: FileRunOptions = {}): Promise<FileResult> {
+  const relativePath = relativeTestPath(testFile, rootDir)
+  const reportFile = join(reportDir, `${relativePath.replace(/[\\/]/g, '_')}.xml`)
+  const start = performance.now()
+
+  const cmd = ['bun', 'test', testFile, '--reporter=junit', `--reporter-outfile=${reportFile}`]
+  if (fileOptions.testNamePattern)
+    cmd.push('--test-name-pattern', fileOptions.testNamePattern)
+  if (fileOptions.timeout)
+    cmd.push(`--timeout=${fileOptions.timeout}`)
+  for (const preload of fileOptions.preload ?? [])
+    cmd.push('--preload', preload)
+  // Every process, including retries, gets its own coverage directory
+  const coverageDir = fileOptions.coverage ? mkdtempSync(join(reportDir, 'coverage-')) : undefined
+  if (coverageDir)
+    cmd.push('--coverage', '--coverage-reporter=lcov', `--coverage-dir=${coverageDir}`)
+
+  const proc = spawn({
+    cmd,
+    cwd: rootDir,
+    env: { ...process.env },
+    stdout: 'pipe',
+    stderr: 'pipe',
+  })
+  const cancel = (): void => {
+    proc.kill()
+  }
+  fileOptions.signal?.addEventListener('abort', cancel, { once: true })
+
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ])
+  fileOptions.signal?.removeEventListener('abort', cancel)
+
+  const result: FileResult = {
+    file: relativePath,
+    tests: [],
+    duration: performance.now() - start,
+    exitCode,
+    stdout,
+    stderr,
+  }
+
+  if (existsSync(reportFile)) {
+    result.tests = parseJUnitReport(readFileSync(reportFile, 'utf8'), relativePath)
+
+    // Bun reports tests excluded by the name pattern as skipped; they did not run at all
+    if (fileOptions.testNamePattern) {
+      const pattern = new RegExp(fileOptions.testNamePattern)
+      result.tests = result.tests.filter(test => test.status === 'fail' || test.status === 'pass' || pattern.test([...test.path, test.name].join(' ')))
+      // Bun exits with 1 when the pattern matches nothing, which leaves this file nothing to run
+      if (result.tests.length === 0 && /matched 0 tests/.test(stderr))
+        result.exitCode = 0
+    }
+  }
+  else {
+    // No report means the file never got to run its tests (syntax error, crash, ...)
+    const errorLine = stderr.split('\n').find(line => line.includes('error:'))
+    result.error = {
+      message: errorLine?.trim() || `bun test exited with code ${exitCode} without a report`,
+      stack: stderr.trim() || undefined,
+    }
+  }
+
+  const lcovFile = coverageDir && join(coverageDir, 'lcov.info')
+  if (lcovFile && existsSync(lcovFile))
+    result.coverage = readFileSync(lcovFile, 'utf8')
+
+  return result
+}
+
+function joinCoverage(...reports: Array<string | undefined>): string | undefined {
+  const present = reports.filter(report => report !== undefined)
+  return present.length > 0 ? present.join('\n') : undefined
+}
+
+/**
+ * Run a test file, rerunning its failures up to `retry` times. Failed tests rerun on
+ * their own and are marked flaky once they pass; a file that failed as a whole
+ * (it did not load or crashed) reruns completely.
+ */
+async function runFileWithRetry(testFile: string, rootDir: string, reportDir: string, fileOptions: FileRunOptions = {}, retry = 0): Promise<FileResult> {
+  let result = await runFile(testFile, rootDir, reportDir, fileOptions)
+
+  for (let attempt = 1; attempt <= retry && isFailedFile(result) && !fileOptions.signal?.aborted; attempt++) {
+    const failed = result.tests.filter(test => test.status === 'fail')
+
+    if (result.error || failed.length === 0) {
+      const rerun = await runFile(testFile, rootDir, reportDir, fileOptions)
+      result = { ...rerun, duration: result.duration + rerun.duration, coverage: joinCoverage(result.coverage, rerun.coverage) }
+      continue
+    }
+
+    const rerun = await runFile(testFile, rootDir, reportDir, { ...fileOptions, testNamePattern: testNamePattern(failed) })
+    for (const test of failed) {
+      const retried = rerun.tests.find(candidate => candidate.name === test.name && candidate.path.join('\0') === test.path.join('\0'))
+      test.retries = attempt
+      if (retried?.status === 'pass')
+        test.status = 'flaky'
+      else if (retried?.error)
+        test.error = retried.error
+    }
+
+    result.duration += rerun.duration
+    result.stdout += rerun.stdout
+    result.stderr += rerun.stderr
+    result.coverage = joinCoverage(result.coverage, rerun.coverage)
+    // The rerun only contains the failed tests, so its exit code tells whether any still fail
+    result.exitCode = rerun.error ? result.exitCode : rerun.exitCode
+  }
+
+  return result
+}
+
+type ReporterHook = keyof Reporter
+
+function reporterEntries(options: RunOptions): ReporterEntry[] {
+  if (options.reporter && options.reporter !== 'default') {
+    const named: ReporterEntry = [options.reporter, { outputFile: options.outputFile }]
+    return options.outputFile ? ['default', named] : [named]
+  }
+
+  if (options.reporter === 'default' || !options.reporters?.length)
+    return ['default']
+
+  return options.reporters
+}
+
+/**
+ * A reporter hook, called with the arguments of hook `K`
+ */
+interface ReporterHookFunction<K extends ReporterHook> {
+  (...args: Parameters<NonNullable<Reporter[K]>>): void | Promise<void>
+}
+
+/**
+ * Call a hook on every reporter, one after another
+ */
+async function emit<K extends ReporterHook>(reporters: Reporter[], hook: K, ...args: Parameters<NonNullable<Reporter[K]>>): Promise<void> {
+  for (const reporter of reporters) {
+    const fn = reporter[hook] as ReporterHookFunction<K> | undefined
+    await fn?.apply(reporter, args)
+  }
+}
+
+async function reportFile(reporters: Reporter[], result: FileResult): Promise<void> {
+  for (const test of result.tests)
+    await emit(reporters, 'onTestResult', test)
+  await emit(reporters, 'onFileEnd', result)
+}
+
+/**
+ * Send results that were produced elsewhere (e.g. merged shard reports) through the
+ * configured reporters, as if they had just run
+ */
+export async function reportResults(results: FileResult[], options: RunOptions = {}, duration?: number): Promise<void> {
+  const rootDir = options.cwd ?? process.cwd()
+  const reporters = await resolveReporters(reporterEntries(options), rootDir)
+
+  await emit(reporters, 'onRunStart', { rootDir, files: results.map(result => result.file), workers: 1 })
+  for (const result of results) {
+    await emit(reporters, 'onFileStart', result.file)
+    await reportFile(reporters, result)
+  }
+  await emit(reporters, 'onRunEnd', results, summarize(results, duration ?? results.reduce((total, result) => total + result.duration, 0)))
+}
+
+/**
+ * Path of a test file relative to the project root, as shown in output and reports
+ */
+export function relativeTestPath(file: string, rootDir: string): string {
+  return file.replace(rootDir, '').replace(/^[\\/]/, '')
+}
+
+/**
+ * Discover the test files for a run: files under the search roots matching `include`
+ * and not `exclude`, then narrowed down by the path filters
+ */
+export function discoverTestFiles(options: RunOptions = {}): string[] {
+  const filterPaths = options.paths ?? []
+  const rootDir = options.cwd ?? process.cwd()
+  const include = (options.include ?? defaultInclude).map(pattern => new Glob(pattern.replace(/^\.\//, '')))
+  const isExcluded = excludeMatcher(options.exclude)
+  const files = new Set<string>()
+
+  const walk = (dir: string): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = resolve(dir, entry.name)
+      const relativePath = relativeTestPath(fullPath, rootDir)
+      // Excluded directories are never entered
+      if (isExcluded(relativePath, entry.isDirectory()))
+        continue
+
+      if (entry.isDirectory())
+        walk(fullPath)
+      else if (include.some(glob => glob.match(relativePath)))
+        files.add(fullPath)
+    }
+  }
+
+  for (const root of searchRoots(options)) {
+    const dir = resolve(rootDir, root)
+    if (existsSync(dir) && statSync(dir).isDirectory())
+      walk(dir)
+  }
+
+  let allTestFiles = [...files]
+
+  // Apply filter if provided
+  if (filterPaths.length > 0) {
+    allTestFiles = allTestFiles.filter((file) => {
+      const relativePath = relativeTestPath(file, rootDir)
+      return filterPaths.some(filter => relativePath.includes(filter))
+    })
+  }
+
+  return allTestFiles
+}
+
+/**
+ * Run the given test files (absolute paths) and report them through the configured reporters.
+ * `fileOptions` holds per-file options keyed by absolute path.
+ */
+export async function runTestFiles(testFiles: string[], options: RunOptions = {}, fileOptions: Map<string, FileRunOptions> = new Map()): Promise<FileResult[]> {
+  const rootDir = options.cwd ?? process.cwd()
+  const reporters = await resolveReporters(reporterEntries(options), rootDir)
+
+  const start = performance.now()
+  const workers = options.workers && options.workers > 0 ? options.workers : availableParallelism()
+  const setupFiles = options.setupFiles?.map(file => resolve(rootDir, file)) ?? []
+  const budget = durationBudget(options.maxDuration)
+  const namePattern = combineNamePatterns(options.testNamePattern, tagPattern(options.tags, options.excludeTags))
+  const relativeFiles = testFiles.map(file => relativeTestPath(file, rootDir))
+  await emit(reporters, 'onRunStart', { rootDir, files: relativeFiles, workers })
+
+  const reportDir = mkdtempSync(join(tmpdir(), 'besting-'))
+  // Loaded before the setup files, so that their hooks get the hook timeout as well
+  const hookPreload = options.hookTimeout ? join(reportDir, 'hook-timeout.js') : undefined
+  if (hookPreload)
+    writeFileSync(hookPreload, hookTimeoutPreload(options.hookTimeout!))
+  const preload = hookPreload ? [hookPreload, ...setupFiles] : setupFiles
+  let results: FileResult[] = []
+  // Finished files are reported one at a time, in discovery order
+  let reported: Promise<void> = Promise.resolve()
+  // Aborted once `bail` failures are reached; cancelled and skipped files leave no result
+  const bail = new AbortController()
+  let failures = 0
+  // Files in which the name or tag filter matched no test, left out like `besting list` does
+  let unmatched = 0
+
+  try {
+    // Run each test file in its own process, reporting each finished file in discovery order
+    const finished = await runPool(testFiles, workers, async (testFile, index) => {
+      if (bail.signal.aborted)
+        return undefined
+
+      await emit(reporters, 'onFileStart', relativeFiles[index])
+      const { testNamePattern: filePattern, ...rest } = fileOptions.get(testFile) ?? {}
+      const runOptions: FileRunOptions = { timeout: options.testTimeout, preload, coverage: options.coverage?.enabled, signal: bail.signal, ...rest, testNamePattern: combineNamePatterns(namePattern, filePattern) }
+      const result = applyDurationBudget(await runFileWithRetry(testFile, rootDir, reportDir, runOptions, options.retry), budget)
+      if (bail.signal.aborted)
+        return undefined
+      if (runOptions.testNamePattern && result.tests.length === 0 && !result.error && result.exitCode === 0) {
+        unmatched++
+        return undefined
+      }
+
+      if (isFailedFile(result))
+        failures += Math.max(1, result.tests.filter(test => test.status === 'fail').length)
+      if (options.bail && failures >= options.bail)
+        bail.abort()
+      return result
+    }, (result) => {
+      if (result)
+        reported = reported.then(() => reportFile(reporters, result))
+    })
+    await reported
+    results = finished.filter(result => result !== undefined)
+  }
+  finally {
+    rmSync(reportDir, { recursive: true, force: true })
+  }
+
+  const summary = summarize(results, performance.now() - start)
+  if (bail.signal.aborted)
+    summary.skippedFiles = testFiles.length - results.length - unmatched
+  await emit(reporters, 'onRunEnd', results, summary)
+
+  // Both reports go to stderr so that they never mix into a json or ndjson report on stdout
+  if (options.slowest && options.slowest > 0)
+    console.error(`\n${formatSlowReport(results, options.slowest, readDurationHistory(rootDir))}`)
+  // Failing budgets already show up as failed tests
+  const budgetReport = budget.fail ? '' : formatBudgetReport(results, budget)
+  if (budgetReport)
+    console.error(`\n${budgetReport}`)
+
+  writeLastRun(rootDir, results)
+  // Files filtered down to a few tests would skew the recorded durations
+  const fullRuns = namePattern ? [] : results.filter((_result, index) => !fileOptions.get(testFiles[index])?.testNamePattern)
+  writeDurations(rootDir, fullRuns)
+  writeDurationHistory(rootDir, fullRuns)
+
+  return results
+}
+
+/**
+ * Run the test suite and resolve with the exit code (1 when any test or file failed)
+ */
+export async function runTests(options: RunOptions = {}): Promise<number> {
+  const filterPaths = options.paths ?? []
+  let testFiles = discoverTestFiles(options)
+  const fileOptions = new Map<string, FileRunOptions>()
+
+  if (options.onlyFailures) {
+    const rootDir = options.cwd ?? process.cwd()
+    const failures = readLastRun(rootDir)?.failures ?? []
+    if (failures.length === 0) {
+      console.log(`${colors.green}No failures recorded by the previous run${colors.reset}`)
+      return 0
+    }
+
+    const failedFiles = new Map(failures.map(failure => [resolve(rootDir, failure.file), failure]))
+    testFiles = testFiles.filter(file => failedFiles.has(file))
+    for (const file of testFiles) {
+      // Files that failed as a whole (no individual failed tests) rerun completely
+      const { tests } = failedFiles.get(file)!
+      if (tests.length > 0)
+        fileOptions.set(file, { testNamePattern: testNamePattern(tests) })
+    }
+  }
+
+  if (testFiles.length === 0) {
+    console.error(`${colors.red}No test files found${filterPaths.length > 0 ? ` matching ${filterPaths.join(', ')}` : ''}${colors.reset}`)
+    return 1
+  }
+
+  if (options.shard) {
+    const { index, total } = options.shard
+    testFiles = shardFiles(testFiles, options.shard, options.cwd ?? process.cwd())
+    if (testFiles.length === 0) {
+      // More shards than files is not an error, the other shards cover everything
+      console.log(`${colors.yellow}No test files in shard ${index}/${total}${colors.reset}`)
+      return 0
+    }
+  }
+
+  let setup: GlobalSetupSession
+  try {
+    setup = await runGlobalSetup(options)
+  }
+  catch (error) {
+    console.error(`${colors.red}Global setup failed:${colors.reset}`, error)
+    return 1
+  }
+
+  let results: FileResult[] = []
+  let coverageFailures: string[] = []
+  let teardownErrors: unknown[] = []
+  try {
+    results = await runTestFiles(testFiles, options, fileOptions)
+    if (options.coverage?.enabled)
+      coverageFailures = reportCoverage(results, options.cwd ?? process.cwd(), options.coverage)
+  }
+  finally {
+    // Teardown runs whether the tests passed, failed or the run threw
+    teardownErrors = await setup.teardown()
+    for (const error of teardownErrors)
+      console.error(`${colors.red}Global teardown failed:${colors.reset}`, error)
+  }
+
+  return results.some(isFailedFile) || coverageFailures.length > 0 || teardownErrors.length > 0 ? 1 : 0
+}
@@ -0,0 +1,169 @@
+/**
+ * Config Schema
+ *
+ * Runtime validation of `besting.config.ts`, mirroring `BestingConfig`.
+ * Every problem is reported with the path of the offending key, e.g. `coverage.thresholds.lines`.
+ */
+
+import type { BestingConfig } from './types'
+
+/**
+ * Check a value and describe each problem, prefixed with its key path
+ */
+interface Schema {
+  (value: unknown, path: string): string[]
+}
+
+function describeValue(value: unknown): string {
+  if (value === null)
+    return 'null'
+  if (Array.isArray(value))
+    return 'an array'
+  if (typeof value === 'string')
+    return JSON.stringify(value)
+  if (typeof value === 'object')
+    return 'an object'
+  if (typeof value === 'function')
+    return 'a function'
+  return String(value)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function check(expected: string, test: (value: unknown) => boolean): Schema {
+  return (value, path) => test(value) ? [] : [`${path}: expected ${expected}, got ${describeValue(value)}`]
+}
+
+const string = check('a string', value => typeof value === 'string')
+const boolean = check('a boolean', value => typeof value === 'boolean')
+const duration = check('a number of milliseconds', value => typeof value === 'number' && value >= 0)
+const count = check('a non-negative integer', value => Number.isInteger(value) && (value as number) >= 0)
+const percentage = check('a percentage between 0 and 100', value => typeof value === 'number' && value >= 0 && value <= 100)
+
+function oneOf(...values: string[]): Schema {
+  return check(`one of ${values.map(value => JSON.stringify(value)).join(', ')}`, value => values.includes(value as string))
+}
+
+function arrayOf(item: Schema): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value))
+      return [`${path}: expected an array, got ${describeValue(value)}`]
+    return value.flatMap((entry, index) => item(entry, `${path}[${index}]`))
+  }
+}
+
+function recordOf(item: Schema): Schema {
+  return (value, path) => {
+    if (!isPlainObject(value))
+      return [`${path}: expected an object, got ${describeValue(value)}`]
+    return Object.entries(value).flatMap(([key, entry]) => item(entry, `${path}.${key}`))
+  }
+}
+
+function object(shape: Record<string, Schema>): Schema {
+  return (value, path) => {
+    if (!isPlainObject(value))
+      return [`${path || 'config'}: expected an object, got ${describeValue(value)}`]
+
+    return Object.entries(value).flatMap(([key, entry]) => {
+      const keyPath = path ? `${path}.${key}` : key
+      if (!(key in shape))
+        return [`${keyPath}: unknown key`]
+      return entry === undefined ? [] : shape[key](entry, keyPath)
+    })
+  }
+}
+
+// Reporters take options of their own, so only the shared `outputFile` is checked
+const reporterOptions: Schema = (value, path) => {
+  if (!isPlainObject(value))
+    return [`${path}: expected an object, got ${describeValue(value)}`]
+  return value.outputFile === undefined ? [] : string(value.outputFile, `${path}.outputFile`)
+}
+
+// A built-in name or module path, a reporter object, or a `[nameOrPath, options]` tuple
+const reporterEntry: Schema = (value, path) => {
+  if (typeof value === 'string' || isPlainObject(value))
+    return []
+  if (Array.isArray(value) && value.length === 2)
+    return [...string(value[0], `${path}[0]`), ...reporterOptions(value[1], `${path}[1]`)]
+  return [`${path}: expected a reporter name, a reporter object or a [name, options] tuple, got ${describeValue(value)}`]
+}
+
+const durationBudget = object({ test: duration, file: duration, fail: boolean })
+
+const settings: Record<string, Schema> = {
+  verbose: boolean,
+  workers: count,
+  reporters: arrayOf(reporterEntry),
+  roots: arrayOf(string),
+  include: arrayOf(string),
+  exclude: arrayOf(string),
+  testTimeout: duration,
+  hookTimeout: duration,
+  retry: count,
+  setupFiles: arrayOf(string),
+  globalSetup: string,
+  globalTeardown: string,
+  coverage: object({
+    enabled: boolean,
+    include: arrayOf(string),
+    exclude: arrayOf(string),
+    reporter: arrayOf(oneOf('text', 'lcov', 'html')),
+    reportsDirectory: string,
+    thresholds: object({ lines: percentage, functions: percentage }),
+  }),
+  slowest: count,
+  maxDuration: (value, path) => typeof value === 'number' ? duration(value, path) : durationBudget(value, path),
+  browser: object({
+    browser: oneOf('chromium', 'firefox'),
+    headless: boolean,
+    width: count,
+    height: count,
+    timeout: duration,
+    slowMo: duration,
+    devtools: boolean,
+    executablePath: string,
+  }),
+  stress: object({
+    duration: check('a number of seconds', value => typeof value === 'number' && value > 0),
+    concurrency: check('a positive integer', value => Number.isInteger(value) && (value as number) > 0),
+    headers: recordOf(string),
+  }),
+  api: object({
+    baseUrl: string,
+    headers: recordOf(string),
+    timeout: duration,
+  }),
+  database: object({
+    url: string,
+    migrations: string,
+    seeders: string,
+  }),
+}
+
+const configSchema = object({
+  ...settings,
+  profiles: recordOf(object(settings)),
+})
+
+/**
+ * Describe every unknown or wrongly typed key of a config, e.g.
+ * `coverage.thresholds.lines: expected a percentage between 0 and 100, got "90"`
+ */
+export function configIssues(config: unknown): string[] {
+  return configSchema(config, '')
+}
+
+/**
+ * Check a config against the schema, throwing an error that lists every problem
+ */
+export function validateConfig(config: unknown, source = 'besting config'): BestingConfig {
+  const issues = configIssues(config)
+  if (issues.length > 0)
+    throw new Error(`Invalid ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`)
+
+  return config as BestingConfig
+}
@@ -0,0 +1,137 @@
+/**
+ * Global Setup
+ *
+ * Runs the `globalSetup` module once before any test file is spawned and the
+ * teardown once every file finished. Values returned by the setup reach the
+ * test files as environment variables.
+ */
+
+import type { RunOptions } from './runner'
+import { resolve } from 'node:path'
+import process from 'node:process'
+import { pathToFileURL } from 'node:url'
+
+/**
+ * Values returned by a global setup; each key becomes an environment variable
+ * of the test processes (strings as they are, anything else as JSON)
+ */
+export type GlobalSetupValues = Record<string, unknown>
+
+export type GlobalTeardown = () => void | Promise<void>
+
+/**
+ * Default export of a `globalSetup` module. It may return values for the test
+ * processes or a teardown function.
+ */
+export type GlobalSetup = () => GlobalSetupValues | GlobalTeardown | void | Promise<GlobalSetupValues | GlobalTeardown | void>
+
+/**
+ * A started global setup
+ */
+export interface GlobalSetupSession {
+  /** Environment variables added for the test processes */
+  env: Record<string, string>
+  /** Run every teardown, restore the environment and resolve with the errors thrown on the way */
+  teardown: () => Promise<unknown[]>
+}
+
+type HookFunction = () => unknown
+
+async function importModule(path: string, rootDir: string): Promise<Record<string, unknown>> {
+  return await import(pathToFileURL(resolve(rootDir, path)).href) as Record<string, unknown>
+}
+
+function exportedFunction(module: Record<string, unknown>, path: string, exportNames: string[]): HookFunction | undefined {
+  const exported = exportNames.map(name => module[name]).find(value => value !== undefined)
+
+  if (exported !== undefined && typeof exported !== 'function')
+    throw new Error(`"${path}" must export a function (as ${exportNames.map(name => `"${name}"`).join(' or ')})`)
+
+  return exported as HookFunction | undefined
+}
+
+async function runTeardowns(teardowns: HookFunction[]): Promise<unknown[]> {
+  const errors: unknown[] = []
+  for (const teardown of [...teardowns].reverse()) {
+    try {
+      await teardown()
+    }
+    catch (error) {
+      errors.push(error)
+    }
+  }
+  return errors
+}
+
+/**
+ * Convert setup values into environment variables
+ */
+export function setupEnv(values: GlobalSetupValues): Record<string, string> {
+  const env: Record<string, string> = {}
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined)
+      env[key] = typeof value === 'string' ? value : JSON.stringify(value)
+  }
+  return env
+}
+
+/**
+ * Run the configured `globalSetup` and expose its values to the test processes.
+ *
+ * The teardowns run in this order: the function returned by the setup, a `teardown`
+ * export of the setup module, then the `globalTeardown` module.
+ */
+export async function runGlobalSetup(options: RunOptions = {}): Promise<GlobalSetupSession> {
+  const rootDir = options.cwd ?? process.cwd()
+  const teardowns: HookFunction[] = []
+  let env: Record<string, string> = {}
+
+  if (options.globalTeardown) {
+    const teardown = exportedFunction(await importModule(options.globalTeardown, rootDir), options.globalTeardown, ['default', 'teardown'])
+    if (teardown)
+      teardowns.push(teardown)
+  }
+
+  if (options.globalSetup) {
+    const module = await importModule(options.globalSetup, rootDir)
+    const setup = exportedFunction(module, options.globalSetup, ['default', 'setup'])
+    const moduleTeardown = exportedFunction(module, options.globalSetup, ['teardown'])
+    if (moduleTeardown)
+      teardowns.push(moduleTeardown)
+
+    let returned: unknown
+    try {
+      returned = await setup?.()
+    }
+    catch (error) {
+      // Clean up whatever the setup started before it failed
+      await runTeardowns(teardowns)
+      throw error
+    }
+
+    if (typeof returned === 'function')
+      teardowns.push(returned as HookFunction)
+    else if (returned && typeof returned === 'object')
+      env = setupEnv(returned as GlobalSetupValues)
+  }
+
+  const previous = Object.fromEntries(Object.keys(env).map(key => [key, process.env[key]]))
+  // Test processes inherit the runner's environment
+  Object.assign(process.env, env)
+
+  return {
+    env,
+    async teardown() {
+      const errors = await runTeardowns(teardowns)
+
+      for (const [key, value] of Object.entries(previous)) {
+        if (value === undefined)
+          delete process.env[key]
+        else
+          process.env[key] = value
+      }
+
+      return errors
+    },
+  }
+}
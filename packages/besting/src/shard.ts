@@ -0,0 +1,131 @@
+/* eslint-disable no-console */
+
+/**
+ * Sharding
+ *
+ * Splits test files deterministically across CI jobs and merges the per-shard
+ * reports back into one.
+ */
+
+import type { RunOptions } from './runner'
+import type { FileResult, TestResult } from './types'
+import { existsSync, readFileSync, statSync } from 'node:fs'
+import { extname, resolve } from 'node:path'
+import process from 'node:process'
+import { readDurations } from './history'
+import { colors } from './reporters'
+import { isFailedFile, parseJUnitFileResults } from './results'
+import { relativeTestPath, reportResults } from './runner'
+
+/**
+ * One shard out of `total`, numbered from 1
+ */
+export interface ShardSpec {
+  index: number
+  total: number
+}
+
+/**
+ * Parse a shard argument such as `2/5`
+ */
+export function parseShard(value: string): ShardSpec {
+  const match = /^(\d+)\/(\d+)$/.exec(value.trim())
+  const index = Number(match?.[1])
+  const total = Number(match?.[2])
+
+  if (!match || total < 1 || index < 1 || index > total)
+    throw new Error(`Invalid shard "${value}": expected <index>/<total> with 1 <= index <= total, e.g. 2/5`)
+
+  return { index, total }
+}
+
+/**
+ * Select the files belonging to one shard.
+ *
+ * Files are weighted by their duration in previous runs (`.besting/durations.json`)
+ * or, when no durations are recorded, by file size, then assigned heaviest first to
+ * the lightest shard. Every shard computes the same assignment from the same inputs,
+ * so the shards never overlap and together cover every file.
+ */
+export function shardFiles(files: string[], shard: ShardSpec, rootDir: string): string[] {
+  const durations = readDurations(rootDir)
+  const known = files.map(file => durations[relativeTestPath(file, rootDir)]).filter((duration): duration is number => duration !== undefined)
+  const useDurations = known.length > 0
+  // Files without a recorded duration count as an average file
+  const fallback = useDurations ? known.reduce((total, duration) => total + duration, 0) / known.length : 0
+
+  const weighted = files.map((file) => {
+    const relativePath = relativeTestPath(file, rootDir)
+    const weight = useDurations
+      ? durations[relativePath] ?? fallback
+      : existsSync(file) ? statSync(file).size : 0
+    return { file, relativePath, weight }
+  })
+
+  weighted.sort((a, b) => b.weight - a.weight || a.relativePath.localeCompare(b.relativePath))
+
+  const loads: number[] = Array.from({ length: shard.total }, () => 0)
+  const assigned = new Set<string>()
+
+  for (const { file, weight } of weighted) {
+    let lightest = 0
+    for (let i = 1; i < loads.length; i++) {
+      if (loads[i] < loads[lightest])
+        lightest = i
+    }
+    loads[lightest] += weight
+    if (lightest === shard.index - 1)
+      assigned.add(file)
+  }
+
+  // Keep discovery order within the shard
+  return files.filter(file => assigned.has(file))
+}
+
+/**
+ * Read a besting JUnit (`.xml`) or JSON (`.json`) report back into file results
+ */
+export function readReport(path: string): FileResult[] {
+  const content = readFileSync(path, 'utf8')
+
+  if (extname(path) === '.xml')
+    return parseJUnitFileResults(content)
+
+  const report = JSON.parse(content) as { files?: Array<Partial<FileResult>> }
+  if (!Array.isArray(report.files))
+    throw new Error(`${path} is not a besting JSON report (missing "files")`)
+
+  return report.files.map(file => ({
+    file: file.file ?? '',
+    tests: (file.tests ?? []) as TestResult[],
+    duration: file.duration ?? 0,
+    exitCode: file.exitCode ?? 0,
+    stdout: file.stdout ?? '',
+    stderr: file.stderr ?? '',
+    error: file.error,
+    overBudget: file.overBudget,
+  }))
+}
+
+/**
+ * Merge shard reports into one and send it through the reporters.
+ * Resolves with the exit code (1 when any merged file failed).
+ */
+export async function mergeReports(paths: string[], options: RunOptions = {}): Promise<number> {
+  const rootDir = options.cwd ?? process.cwd()
+
+  if (paths.length === 0) {
+    console.error(`${colors.red}No reports to merge${colors.reset}`)
+    return 1
+  }
+
+  const results: FileResult[] = []
+  for (const path of paths)
+    results.push(...readReport(resolve(rootDir, path)))
+
+  // Order by file so the merged report does not depend on the order of the inputs
+  results.sort((a, b) => a.file.localeCompare(b.file))
+  await reportResults(results, options)
+
+  return results.some(isFailedFile) ? 1 : 0
+}
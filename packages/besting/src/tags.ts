@@ -0,0 +1,79 @@
+/**
+ * Tags
+ *
+ * Tags are `@name` words in a test or describe name, e.g. `logs in @browser`.
+ * `best().test(name, { tags }, fn)` appends them to the name, so Bun's name
+ * pattern can select tests by tag and every report carries the tags along.
+ */
+
+// A tag is an `@` word at the start of a name or after whitespace
+const tagRegExp = /(?:^|\s)@([\w:.-]+)(?=\s|$)/g
+
+/**
+ * Escape a string for use as a literal in a regular expression
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function stripAt(tag: string): string {
+  return tag.startsWith('@') ? tag.slice(1) : tag
+}
+
+/**
+ * Tags found in a name, without the `@` and without duplicates
+ */
+export function parseTags(name: string): string[] {
+  return [...new Set(Array.from(name.matchAll(tagRegExp), match => match[1]))]
+}
+
+/**
+ * Append tags to a test name, e.g. `taggedName('logs in', ['browser'])` is `logs in @browser`.
+ * Tags already in the name are not repeated.
+ */
+export function taggedName(name: string, tags: string[] = []): string {
+  const present = parseTags(name)
+  const missing = tags.map(stripAt).filter(tag => !present.includes(tag))
+  return [name, ...new Set(missing)].map((part, index) => index === 0 ? part : `@${part}`).join(' ')
+}
+
+function hasTag(tag: string): string {
+  return `(?:^|\\s)@${escapeRegExp(stripAt(tag))}(?=\\s|$)`
+}
+
+/**
+ * Build a name pattern selecting tests with any of `tags` and none of `excludeTags`.
+ * Tags of the enclosing describe blocks count, since Bun matches the full name.
+ */
+export function tagPattern(tags: string[] = [], excludeTags: string[] = []): string | undefined {
+  if (tags.length === 0 && excludeTags.length === 0)
+    return undefined
+
+  const include = tags.length > 0 ? `(?=.*(?:${tags.map(hasTag).join('|')}))` : ''
+  const exclude = excludeTags.length > 0 ? `(?!.*(?:${excludeTags.map(hasTag).join('|')}))` : ''
+  return `^${include}${exclude}`
+}
+
+/**
+ * Combine name patterns into one that only matches names matching all of them
+ */
+export function combineNamePatterns(...patterns: Array<string | undefined>): string | undefined {
+  const present = patterns.filter((pattern): pattern is string => Boolean(pattern))
+  if (present.length <= 1)
+    return present[0]
+
+  return `^${present.map(pattern => `(?=.*(?:${pattern}))`).join('')}`
+}
+
+/**
+ * Check that a test name pattern (`-t`) is a valid regular expression, and return it
+ */
+export function validateNamePattern(pattern: string): string {
+  try {
+    RegExp(pattern)
+  }
+  catch (error) {
+    throw new Error(`Invalid test name pattern "${pattern}": ${(error as Error).message}`)
+  }
+  return pattern
+}
@@ -5,11 +5,17 @@
  * Provides additional assertion methods and testing patterns.
  */
 
-import { expect as bunExpect, describe, test } from 'bun:test'
+import { expect as bunExpect, describe, onTestFinished, test } from 'bun:test'
+import type { Dataset } from './datasets'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { combineDatasets } from './datasets'
+import { taggedName } from './tags'
 
 // Extend Bun's expect with custom matchers
-// We override all Matchers methods to return CustomMatchers for chaining
-interface CustomMatchers<T = any> {
+// We override all Matchers methods to return CustomMatchers for chaining.
+// Matchers registered with `expect.extend` are added through declaration merging:
+// declare module 'besting' { interface CustomMatchers<T> { toBeValidOrderId: () => CustomMatchers<T> } }
+export interface CustomMatchers<T = any> {
   // Override Bun's methods to return CustomMatchers for chaining
   toBe: (expected: T) => CustomMatchers<T>
   toEqual: (expected: T) => CustomMatchers<T>
@@ -42,122 +48,403 @@ interface CustomMatchers<T = any> {
   toStartWith: (substring: string) => CustomMatchers<T>
   toEndWith: (substring: string) => CustomMatchers<T>
   toBeEmpty: () => CustomMatchers<T>
+
+  // Collection expectations
+  each: EachMatchers<ItemOf<T>>
+  sequence: (...expectations: Array<SequenceExpectation<ItemOf<T>>>) => CustomMatchers<T>
+
+  // Switch the subject, e.g. `expect(user).name.toBe('John').and(order).id.toBeDefined()`
+  and: <U>(value: U) => CustomMatchers<U>
 }
 
-// Create a custom expect that returns chainable assertions
-export function customExpect<T>(value: T, isNegated = false): CustomMatchers<T> {
+type ItemOf<T> = T extends Iterable<infer U> ? U : unknown
+
+// A chain method taking the arguments `A` and returning `R`
+interface ChainMethod<A extends any[], R> {
+  (...args: A): R
+}
+
+/**
+ * Returned by `.each`: every matcher applies to each item of the collection
+ */
+export type EachMatchers<T> = {
+  [K in Exclude<keyof CustomMatchers<T>, 'each' | 'sequence' | 'and'>]: CustomMatchers<T>[K] extends ChainMethod<infer A, any>
+    ? ChainMethod<A, EachMatchers<T>>
+    : EachMatchers<T>
+}
+
+/**
+ * A `.sequence()` step given the item's chain and index
+ */
+export interface SequenceCallback<T> {
+  (item: Expectation<T>, index: number): void
+}
+
+/**
+ * One step of `.sequence()`: a function given the item's chain and index, or a value the item must equal
+ */
+export type SequenceExpectation<T> = SequenceCallback<T> | T
+
+// Properties of the value that can be expected on directly, i.e. those that are not chain methods
+type PropertyKeys<T> = Exclude<keyof NonNullable<T> & (string | number), keyof CustomMatchers<T>>
+
+// Chain methods that keep the chain's state rather than running a matcher
+interface ExpectationControls<T, S, Matched extends boolean> {
+  not: ExpectationChain<T, S, Matched>
+  withMessage: (message: string) => ExpectationChain<T, S, Matched>
+  and: <U>(value: U) => Expectation<U>
+}
+
+type ExpectationMatchers<T, S, Matched extends boolean> = ExpectationControls<T, S, Matched> & {
+  [K in Exclude<keyof CustomMatchers<T>, keyof ExpectationControls<T, S, Matched>>]: CustomMatchers<T>[K] extends ChainMethod<infer A, any>
+    ? ChainMethod<A, ExpectationChain<T, S, true>>
+    : CustomMatchers<T>[K]
+}
+
+type ExpectationChain<T, S, Matched extends boolean> = ExpectationMatchers<T, S, Matched> & {
+  readonly [K in PropertyKeys<Matched extends true ? S : T>]: Expectation<NonNullable<Matched extends true ? S : T>[K], S>
+}
+
+/**
+ * A `customExpect` chain. Besides matchers, every property of the value is an expectation
+ * of that property; once a matcher has run, properties are read from the subject `S` again:
+ * `expect(user).name.toBe('John').email.toContain('@')`
+ */
+export type Expectation<T, S = T> = ExpectationChain<T, S, false>
+
+/**
+ * What a matcher registered with `expect.extend` returns. `pass` is whether the
+ * value matched; negation with `.not` is handled for the matcher.
+ */
+export interface MatcherResult {
+  pass: boolean
+  /** Failure message, used unless `withMessage()` set one */
+  message: string | (() => string)
+}
+
+/**
+ * `this` of a matcher registered with `expect.extend`
+ */
+export interface MatcherContext {
+  /** Whether the matcher was called through `.not`, for wording the message */
+  isNot: boolean
+  /** Deep equality, as used by `toEqual` */
+  equals: (a: unknown, b: unknown) => boolean
+}
+
+/**
+ * A matcher registered with `expect.extend`: given the value under test and the matcher's arguments
+ */
+export interface CustomMatcher {
+  (this: MatcherContext, received: any, ...args: any[]): MatcherResult
+}
+
+// Properties of the chain that matchers cannot replace
+const reservedMatcherNames = new Set(['not', 'toPass', 'assert', 'withMessage', 'extend', 'each', 'sequence', 'and'])
+
+const builtinMatchers: Record<string, CustomMatcher> = {
+  toStartWith(received, substring: string) {
+    if (typeof received !== 'string')
+      throw new TypeError('toStartWith can only be used with strings')
+    return {
+      pass: received.startsWith(substring),
+      message: () => `expected ${JSON.stringify(received)} ${this.isNot ? 'not ' : ''}to start with ${JSON.stringify(substring)}`,
+    }
+  },
+
+  toEndWith(received, substring: string) {
+    if (typeof received !== 'string')
+      throw new TypeError('toEndWith can only be used with strings')
+    return {
+      pass: received.endsWith(substring),
+      message: () => `expected ${JSON.stringify(received)} ${this.isNot ? 'not ' : ''}to end with ${JSON.stringify(substring)}`,
+    }
+  },
+
+  toBeEmpty(received) {
+    let length: number
+    if (typeof received === 'string' || Array.isArray(received))
+      length = received.length
+    else if (typeof received === 'object' && received !== null)
+      length = Object.keys(received).length
+    else
+      throw new Error('toBeEmpty can only be used with strings, arrays, or objects')
+
+    return {
+      pass: length === 0,
+      message: () => this.isNot ? 'expected value not to be empty' : `expected value to be empty, but it has ${length} item${length === 1 ? '' : 's'}`,
+    }
+  },
+}
+
+const matchers: Record<string, CustomMatcher> = { ...builtinMatchers }
+
+/**
+ * Register matchers on every `customExpect` chain. Each one receives the value under
+ * test and its arguments and returns `{ pass, message }`; `.not` inverts `pass`.
+ */
+export function extendExpect(extensions: Record<string, CustomMatcher>): void {
+  for (const [name, matcher] of Object.entries(extensions)) {
+    if (reservedMatcherNames.has(name))
+      throw new Error(`Cannot register a matcher named "${name}"`)
+    if (typeof matcher !== 'function')
+      throw new TypeError(`Matcher "${name}" must be a function`)
+    matchers[name] = matcher
+  }
+}
+
+/**
+ * A failed assertion recorded in soft mode
+ */
+export interface SoftFailure {
+  message: string
+  /** `file:line:column` of the assertion */
+  location?: string
+}
+
+interface SoftAssertions {
+  failures: SoftFailure[]
+}
+
+// Soft assertions of the running `softly()` block, if any
+const softScope = new AsyncLocalStorage<SoftAssertions>()
+// Soft assertions made with `expect.soft` outside `softly()`, reported when the test finishes
+let testSoftAssertions: SoftAssertions | undefined
+
+// The first stack frame outside this module, i.e. where the assertion was made
+function assertionLocation(stack = ''): string | undefined {
+  const frame = stack.split('\n').find(line => /^\s*at /.test(line) && !line.includes(import.meta.path))
+  return frame?.match(/\(?([^\s()]+:\d+:\d+)\)?$/)?.[1]
+}
+
+/**
+ * Format soft assertion failures as one report, numbered, with their locations
+ */
+export function formatSoftFailures(failures: SoftFailure[]): string {
+  const entries = failures.map(({ message, location }, index) => {
+    const lines = [`${index + 1}) ${message.trim().replace(/\n(?=.)/g, '\n   ')}`]
+    if (location)
+      lines.push(`   at ${location}`)
+    return lines.join('\n')
+  })
+  return `${failures.length} soft assertion${failures.length === 1 ? '' : 's'} failed:\n\n${entries.join('\n\n')}`
+}
+
+function throwSoftFailures(soft: SoftAssertions): void {
+  if (soft.failures.length > 0)
+    throw new Error(formatSoftFailures(soft.failures))
+}
+
+/**
+ * State shared along a `customExpect` chain
+ */
+interface ChainState {
+  soft?: SoftAssertions
+  /** The value given to `expect()` or `and()`; properties accessed after a matcher are read from it */
+  subject: unknown
+  /** Property path from the subject to the value under test, empty for the subject itself */
+  path: string[]
+  /** Whether a matcher ran since the last property access */
+  matched?: boolean
+}
+
+// e.g. `address.city` or `items[0].id`
+function formatPath(path: string[]): string {
+  return path.reduce((formatted, key) => /^\d+$/.test(key) ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key, '')
+}
+
+// Run an assertion, naming the property path in its failure, and recording
+// the failure instead of throwing in soft mode
+function check(state: ChainState, assertion: () => void): void {
+  const stack = state.soft && new Error('assertion').stack
+  try {
+    assertion()
+  }
+  catch (error) {
+    const failure = error instanceof Error ? error : new Error(String(error))
+    if (state.path.length > 0)
+      failure.message = `${formatPath(state.path)}: ${failure.message}`
+    if (!state.soft)
+      throw failure
+    state.soft.failures.push({ message: failure.message, location: assertionLocation(stack) })
+  }
+}
+
+// Chain methods besides `not` and `withMessage` that can be applied to the items of `.each`
+function isMatcherName(prop: string): boolean {
+  return Object.hasOwn(matchers, prop) || prop === 'toPass' || prop === 'assert' || typeof (bunExpect(undefined) as any)[prop] === 'function'
+}
+
+function collectionItems(value: unknown, method: string): unknown[] {
+  if (typeof value === 'string' || typeof (value as Iterable<unknown> | undefined)?.[Symbol.iterator] !== 'function')
+    throw new TypeError(`${method} can only be used with arrays and other iterables`)
+  return Array.from(value as Iterable<unknown>)
+}
+
+// Run `assertion` on every item, failing with the index and message of each item that failed
+function checkItems(items: unknown[], summary: string, assertion: (item: unknown, index: number) => void): void {
+  const failures: string[] = []
+  items.forEach((item, index) => {
+    try {
+      assertion(item, index)
+    }
+    catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      failures.push(`  [${index}] ${message.trim().replace(/\n(?=.)/g, '\n      ')}`)
+    }
+  })
+
+  if (failures.length > 0)
+    throw new Error(`${summary}, but ${failures.length} of ${items.length} item${items.length === 1 ? '' : 's'} failed:\n${failures.join('\n')}`)
+}
+
+// A chain for one item of a collection, failing right away so `checkItems` can name the item
+function itemChain<T>(item: T, isNegated: boolean): Expectation<T> {
+  return createChain(item, isNegated, { subject: item, path: [] })
+}
+
+function createEachChain(items: unknown[], isNegated: boolean, state: ChainState, customMessage?: string): EachMatchers<any> {
+  return new Proxy({}, {
+    get(_target, prop) {
+      if (prop === 'not')
+        return createEachChain(items, !isNegated, state, customMessage)
+      if (prop === 'withMessage')
+        return (message: string) => createEachChain(items, isNegated, state, message)
+      if (typeof prop !== 'string' || !isMatcherName(prop))
+        return undefined
+
+      return (...args: any[]): EachMatchers<any> => {
+        check(state, () => checkItems(items, `expected every item ${isNegated ? 'not ' : ''}to pass ${prop}`, (item) => {
+          const chain: any = itemChain(item, isNegated)
+          const target = customMessage ? chain.withMessage(customMessage) : chain
+          target[prop](...args)
+        }))
+        return createEachChain(items, isNegated, state, customMessage)
+      }
+    },
+  }) as EachMatchers<any>
+}
+
+function createChain<T>(value: T, isNegated: boolean, state: ChainState): any {
   const baseExpect = bunExpect(value) as any
   let customMessage: string | undefined
+  // The chain returned by a matcher: the same value, with properties read from the subject again
+  const matched = (): any => createChain(value, isNegated, { ...state, matched: true })
 
   // Create a proxy to intercept all method calls
   const handler: ProxyHandler<any> = {
     get(target, prop: string) {
       // Handle 'not' property specially to maintain chaining
       if (prop === 'not') {
-        // Create a new customExpect with negation flag
-        return customExpect(value, !isNegated)
+        // Create a new chain with negation flag
+        return createChain(value, !isNegated, state)
+      }
+
+      // Switch to another subject
+      if (prop === 'and')
+        return (other: unknown): any => createChain(other, false, { soft: state.soft, subject: other, path: [] })
+
+      // Collection expectations, applied item by item
+      if (prop === 'each')
+        return createEachChain(collectionItems(value, 'each'), isNegated, state)
+
+      if (prop === 'sequence') {
+        return (...expectations: Array<SequenceExpectation<ItemOf<T>>>): any => {
+          const items = collectionItems(value, 'sequence')
+          if (items.length === 0)
+            throw new Error('sequence cannot be used with an empty collection')
+          if (expectations.length === 0)
+            throw new Error('sequence needs at least one expectation')
+
+          // Like Pest, the expectations repeat when there are more items than expectations
+          check(state, () => checkItems(items, 'expected the items to match the sequence', (item, index) => {
+            const expectation = expectations[index % expectations.length]
+            const chain = itemChain(item as ItemOf<T>, isNegated)
+            if (typeof expectation === 'function')
+              (expectation as SequenceCallback<ItemOf<T>>)(chain, index)
+            else
+              chain.toEqual(expectation as ItemOf<T>)
+          }))
+          return matched()
+        }
       }
 
       // Handle custom methods
       if (prop === 'toPass') {
-        return (fn: (value: T) => boolean, message?: string): CustomMatchers<T> => {
-          const result = fn(value)
-          const msg = customMessage || message || 'Custom validation failed'
-          if (!result) {
-            throw new Error(msg)
-          }
-          return customExpect(value, isNegated)
+        return (fn: (value: T) => boolean, message?: string): any => {
+          check(state, () => {
+            const result = fn(value)
+            const msg = customMessage || message || 'Custom validation failed'
+            if (!result) {
+              throw new Error(msg)
+            }
+          })
+          return matched()
         }
       }
 
       if (prop === 'assert') {
-        return (fn: (value: T) => void): CustomMatchers<T> => {
-          try {
-            fn(value)
-          }
-          catch (error) {
-            if (customMessage) {
-              throw new Error(customMessage)
+        return (fn: (value: T) => void): any => {
+          check(state, () => {
+            try {
+              fn(value)
             }
-            throw error
-          }
-          return customExpect(value, isNegated)
+            catch (error) {
+              if (customMessage) {
+                throw new Error(customMessage)
+              }
+              throw error
+            }
+          })
+          return matched()
         }
       }
 
       if (prop === 'withMessage') {
-        return (message: string): CustomMatchers<T> => {
+        return (message: string): any => {
           customMessage = message
           return new Proxy(target, handler)
         }
       }
 
-      if (prop === 'toStartWith') {
-        return (substring: string): CustomMatchers<T> => {
-          if (typeof value !== 'string') {
-            throw new TypeError('toStartWith can only be used with strings')
-          }
-          const result = (value as string).startsWith(substring)
-          if (isNegated) {
-            bunExpect(result).toBe(false)
-          }
-          else {
-            bunExpect(result).toBe(true)
-          }
-          return customExpect(value, isNegated) as CustomMatchers<T>
-        }
-      }
-
-      if (prop === 'toEndWith') {
-        return (substring: string): CustomMatchers<T> => {
-          if (typeof value !== 'string') {
-            throw new TypeError('toEndWith can only be used with strings')
-          }
-          const result = (value as string).endsWith(substring)
-          if (isNegated) {
-            bunExpect(result).toBe(false)
-          }
-          else {
-            bunExpect(result).toBe(true)
-          }
-          return customExpect(value, isNegated) as CustomMatchers<T>
-        }
-      }
-
-      if (prop === 'toBeEmpty') {
-        return (): CustomMatchers<T> => {
-          let length: number
-          if (typeof value === 'string' || Array.isArray(value)) {
-            length = (value as any).length
-          }
-          else if (typeof value === 'object' && value !== null) {
-            length = Object.keys(value as object).length
-          }
-          else {
-            throw new Error('toBeEmpty can only be used with strings, arrays, or objects')
-          }
-
-          if (isNegated) {
-            bunExpect(length).not.toBe(0)
-          }
-          else {
-            bunExpect(length).toBe(0)
-          }
-          return customExpect(value, isNegated) as CustomMatchers<T>
+      // Registered matchers (the built-in ones and those added with `expect.extend`)
+      if (Object.hasOwn(matchers, prop)) {
+        return (...args: any[]): any => {
+          check(state, () => {
+            const context: MatcherContext = { isNot: isNegated, equals: (a, b) => Bun.deepEquals(a, b) }
+            const result = matchers[prop].call(context, value, ...args)
+            if (result.pass === isNegated) {
+              const message = typeof result.message === 'function' ? result.message() : result.message
+              throw new Error(customMessage || message)
+            }
+          })
+          return matched()
         }
       }
 
-      // For all existing Bun expect methods, wrap them to return customExpect for chaining
+      // For all existing Bun expect methods, wrap them to return the chain
       const originalMethod = target[prop]
       if (typeof originalMethod === 'function') {
-        return (...args: any[]): CustomMatchers<T> => {
-          originalMethod.apply(target, args)
-          // Return customExpect for chaining (maintaining current negation state)
-          return customExpect(value, isNegated)
+        return (...args: any[]): any => {
+          check(state, () => {
+            originalMethod.apply(target, args)
+          })
+          // Return the chain (maintaining current negation state)
+          return matched()
         }
       }
 
-      return originalMethod
+      if (typeof prop !== 'string' || prop in target || prop === 'then')
+        return originalMethod
+
+      // Higher-order expectations: any other name expects a property of the value, or of
+      // the subject once a matcher has run (`expect(user).name.toBe('John').email`)
+      const owner = state.matched ? state.subject : value
+      const ownerPath = state.matched ? [] : state.path
+      if (owner === null || owner === undefined || !(prop in Object(owner)))
+        throw new TypeError(`"${prop}" is neither a matcher nor a property of ${ownerPath.length > 0 ? formatPath(ownerPath) : 'the value'}`)
+
+      return createChain((owner as any)[prop], state.matched ? false : isNegated, { soft: state.soft, subject: state.subject, path: [...ownerPath, prop] })
     },
   }
 
@@ -166,6 +453,128 @@ export function customExpect<T>(value: T, isNegated = false): CustomMatchers<T>
   return new Proxy(startTarget, handler)
 }
 
+// Create a custom expect that returns chainable assertions
+// Inside `softly()` the chain records failures instead of throwing
+export function customExpect<T>(value: T, isNegated = false): Expectation<T> {
+  return createChain(value, isNegated, { soft: softScope.getStore(), subject: value, path: [] })
+}
+
+/**
+ * Soft assertion: failures are recorded and the chain keeps going. Inside `softly()`
+ * they are reported when the block ends, otherwise when the test finishes.
+ */
+export function softExpect<T>(value: T): Expectation<T> {
+  let soft = softScope.getStore() ?? testSoftAssertions
+  if (!soft) {
+    const collected: SoftAssertions = { failures: [] }
+    try {
+      onTestFinished(() => {
+        testSoftAssertions = undefined
+        throwSoftFailures(collected)
+      })
+      soft = testSoftAssertions = collected
+    }
+    catch {
+      // Outside a test there is nothing to report to at the end, so failures throw right away
+    }
+  }
+  return createChain(value, false, { soft, subject: value, path: [] })
+}
+
+/**
+ * Run `fn` with every assertion in soft mode, then fail with one error listing each
+ * failed assertion and its location
+ */
+export function softly(fn: () => Promise<void>): Promise<void>
+export function softly(fn: () => void): void
+export function softly(fn: () => void | Promise<void>): void | Promise<void> {
+  const soft: SoftAssertions = { failures: [] }
+  const result = softScope.run(soft, fn)
+  if (result instanceof Promise)
+    return result.then(() => throwSoftFailures(soft))
+  throwSoftFailures(soft)
+}
+
+/**
+ * Options of a single test
+ */
+export interface TestOptions {
+  /** Tags used to select the test with `besting test --tag` and `--exclude-tag` */
+  tags?: string[]
+}
+
+// Tests receive the row's values as arguments when they run with a dataset
+interface TestFn {
+  (...args: any[]): void | Promise<void>
+}
+
+/**
+ * Returned by `best().test()`, to run the test once per dataset row
+ */
+export interface TestBuilder {
+  /** Run the test with each row of the dataset; several datasets (or calls) combine into every combination */
+  with: (...datasets: Dataset[]) => TestBuilder
+}
+
+// The `best().test()` declared last, registered once it is known whether `.with()` follows it:
+// at the next `best().test()` or `best().describe()`, or at the end of the current describe
+// block or file. Bun collects each describe block's tests before running the next block's
+// callback, so the pending test is always registered in its own block. Plain `bun:test`
+// calls cannot be seen from here, so a `test()` or `describe()` that follows the pending
+// test in the same block is registered before it.
+let pendingTest: (() => void) | undefined
+
+function registerPendingTest(): void {
+  const register = pendingTest
+  pendingTest = undefined
+  register?.()
+}
+
+function datasetTests(name: string, sources: Dataset[], fn: TestFn): void {
+  let cases: ReturnType<typeof combineDatasets>
+  try {
+    cases = combineDatasets(sources)
+  }
+  catch (error) {
+    test(name, () => {
+      throw error
+    })
+    return
+  }
+
+  for (const { label, args } of cases)
+    test(`${name} with data set "${label}"`, () => fn(...args))
+}
+
+// Declare a test that runs once per dataset row when `.with()` is called on it, and
+// otherwise is handed to Bun as is
+function declareTest(name: string, title: string, fn: TestFn): TestBuilder {
+  registerPendingTest()
+
+  const sources: Dataset[] = []
+  const register = (): void => {
+    if (sources.length > 0)
+      datasetTests(name, sources, fn)
+    else
+      test(name, fn)
+  }
+  pendingTest = register
+  queueMicrotask(() => {
+    if (pendingTest === register)
+      registerPendingTest()
+  })
+
+  const builder: TestBuilder = {
+    with: (...datasets: Dataset[]): TestBuilder => {
+      if (pendingTest !== register)
+        throw new Error(`.with() must directly follow the declaration of "${title}"`)
+      sources.push(...datasets)
+      return builder
+    },
+  }
+  return builder
+}
+
 /**
  * Best API - Alternative testing syntax
  *
@@ -174,20 +583,33 @@ export function customExpect<T>(value: T, isNegated = false): CustomMatchers<T>
  * p.test('test name', () => {
  *   p.it(value).toBe(expected)
  * })
+ * p.test('test name', { tags: ['browser'] }, () => {})
+ * p.test('adds', (a, b, sum) => {
+ *   p.it(a + b).toBe(sum)
+ * }).with([[1, 2, 3], [2, 2, 4]])
  */
 export function best(): {
-  test: (name: string, fn: () => void | Promise<void>) => void
+  test: {
+    (name: string, fn: TestFn): TestBuilder
+    (name: string, options: TestOptions, fn: TestFn): TestBuilder
+  }
   describe: (name: string, fn: () => void) => void
-  it: <T>(value: T) => CustomMatchers<T>
+  it: <T>(value: T) => Expectation<T>
 } {
   return {
-    test: (name: string, fn: () => void | Promise<void>): void => {
-      return test(name, fn)
+    test: (name: string, optionsOrFn: TestOptions | TestFn, fn?: TestFn): TestBuilder => {
+      const body = typeof optionsOrFn === 'function' ? optionsOrFn : fn!
+      // Tags become `@name` words of the test name, which is what the runner selects on
+      const testName = typeof optionsOrFn === 'function' ? name : taggedName(name, optionsOrFn.tags)
+
+      return declareTest(testName, name, body)
     },
     describe: (name: string, fn: () => void): void => {
+      // Keeps the describe block after the test declared before it
+      registerPendingTest()
       return describe(name, fn)
     },
-    it: <T>(value: T): CustomMatchers<T> => {
+    it: <T>(value: T): Expectation<T> => {
       return customExpect(value)
     },
   }
@@ -201,14 +623,21 @@ export function best(): {
  *   v.toBe(expected)
  *   v.toHaveLength(5)
  * })
+ *
+ * With `{ soft: true }` every assertion runs and the failures are reported together.
  */
-export function testGroup<T>(value: T, fn: (expect: CustomMatchers<T>) => void): void {
+export function testGroup<T>(value: T, fn: (expect: Expectation<T>) => void, options: { soft?: boolean } = {}): void {
+  if (options.soft)
+    return softly(() => fn(customExpect(value)))
+
   const expectValue = customExpect(value)
   fn(expectValue)
 }
 
-// Export custom utilities
-export { customExpect as expect }
+/**
+ * `customExpect`, with `expect.extend()` to register matchers and `expect.soft()` for soft assertions
+ */
+export const expect: typeof customExpect & { extend: typeof extendExpect, soft: typeof softExpect } = Object.assign(customExpect, { extend: extendExpect, soft: softExpect })
 
 // Note: Import test utilities directly from 'bun:test' in your test files
 // Do not re-export them here to avoid conflicts
@@ -1,3 +1,263 @@
+/**
+ * Configuration read from `besting.config.ts` in the project root; see `defineConfig`
+ */
 export interface BestingConfig {
   verbose?: boolean
+  /** Number of test files run concurrently (defaults to the CPU count) */
+  workers?: number
+  /**
+   * Reporters used by `besting test`: built-in names (`default`, `junit`, `json`, `ndjson`),
+   * paths to reporter modules, reporter objects, or `[nameOrPath, options]` tuples
+   */
+  reporters?: ReporterEntry[]
+  /**
+   * Directories searched for test files, relative to the project root. Defaults to the
+   * leading directories of the `include` globs when those are set, otherwise `test` and `examples`.
+   */
+  roots?: string[]
+  /** Globs a test file must match, relative to the project root (defaults to `.test` and `.spec` files) */
+  include?: string[]
+  /** Globs of files and directories never searched; a bare name matches at any depth (defaults to `node_modules`) */
+  exclude?: string[]
+  /** Timeout of each test in milliseconds (Bun's default is 5000) */
+  testTimeout?: number
+  /**
+   * Timeout of each hook in milliseconds, for hooks that do not pass their own. Without
+   * it, hooks get the test timeout like in plain `bun test`.
+   */
+  hookTimeout?: number
+  /** Rerun failing tests up to this many times; a test that passes on a rerun is reported as flaky */
+  retry?: number
+  /** Modules preloaded into every test file's process, relative to the project root */
+  setupFiles?: string[]
+  /**
+   * Module run once before any test file is spawned. Its default export may return an
+   * object whose entries become environment variables of the test processes, or a teardown function.
+   */
+  globalSetup?: string
+  /** Module whose default export runs once after all test files, even when tests failed */
+  globalTeardown?: string
+  /** Coverage collection, enabled with `enabled` or `besting test --coverage` */
+  coverage?: CoverageConfig
+  /** Print this many of the slowest tests and files after a run */
+  slowest?: number
+  /** Duration budget; a number is the budget of each test in milliseconds */
+  maxDuration?: number | DurationBudget
+  /** Options for browser tests, e.g. `browser(config.browser)` */
+  browser?: BrowserConfig
+  /** Defaults for stress tests */
+  stress?: StressConfig
+  /** Settings for API tests */
+  api?: ApiConfig
+  /** Settings for database tests */
+  database?: DatabaseConfig
+  /**
+   * Named profiles merged over the rest of the config with `besting test --env <name>`;
+   * nested settings merge key by key, lists replace the base list
+   */
+  profiles?: Record<string, BestingProfile>
 }
+
+/**
+ * Settings a profile overrides
+ */
+export type BestingProfile = Omit<BestingConfig, 'profiles'>
+
+export interface BrowserConfig {
+  browser?: 'chromium' | 'firefox'
+  headless?: boolean
+  width?: number
+  height?: number
+  /** Timeout of browser operations in milliseconds */
+  timeout?: number
+  /** Delay between browser operations in milliseconds */
+  slowMo?: number
+  devtools?: boolean
+  executablePath?: string
+}
+
+export interface StressConfig {
+  /** Duration of a stress test in seconds */
+  duration?: number
+  /** Number of concurrent requests */
+  concurrency?: number
+  headers?: Record<string, string>
+}
+
+export interface ApiConfig {
+  /** Base URL that relative request URLs resolve against */
+  baseUrl?: string
+  headers?: Record<string, string>
+  /** Request timeout in milliseconds */
+  timeout?: number
+}
+
+export interface DatabaseConfig {
+  /** Connection URL, e.g. `sqlite://:memory:` or `postgres://localhost/app_test` */
+  url?: string
+  /** Directory of the migrations run before the tests */
+  migrations?: string
+  /** Directory of the seeders */
+  seeders?: string
+}
+
+/**
+ * Longest a test or test file may take, in milliseconds. Tests and files over
+ * budget are flagged, or failed when `fail` is set.
+ */
+export interface DurationBudget {
+  test?: number
+  file?: number
+  fail?: boolean
+}
+
+export type CoverageReporterName = 'text' | 'lcov' | 'html'
+
+/**
+ * Minimum coverage percentages every source file must reach
+ */
+export interface CoverageThresholds {
+  lines?: number
+  functions?: number
+}
+
+export interface CoverageConfig {
+  enabled?: boolean
+  /** Globs of source files to report, relative to the project root (defaults to all) */
+  include?: string[]
+  /** Globs of source files left out of the report (defaults to `node_modules`) */
+  exclude?: string[]
+  /** Reports to produce (defaults to all of `text`, `lcov` and `html`) */
+  reporter?: CoverageReporterName[]
+  /** Directory for `lcov.info` and the `html` report (defaults to `coverage`) */
+  reportsDirectory?: string
+  thresholds?: CoverageThresholds
+}
+
+/**
+ * Outcome of a single test as reported by Bun. `flaky` marks a test that
+ * failed and then passed when the runner retried it.
+ */
+export type TestStatus = 'pass' | 'fail' | 'skip' | 'todo' | 'flaky'
+
+export interface TestError {
+  message: string
+  stack?: string
+  type?: string
+}
+
+/**
+ * A single test case from a run
+ */
+export interface TestResult {
+  /** Test file path relative to the project root */
+  file: string
+  /** Names of the enclosing `describe` blocks, outermost first */
+  path: string[]
+  name: string
+  status: TestStatus
+  /** Duration in milliseconds */
+  duration: number
+  line?: number
+  assertions: number
+  /** For `flaky` tests the first failure, otherwise the failure of the last attempt */
+  error?: TestError
+  /** Number of times the runner retried the test after it failed */
+  retries?: number
+  /** Set when the test took longer than its duration budget */
+  overBudget?: boolean
+  /** Tags of the test and its describe blocks (`@name` words in their names), without the `@` */
+  tags?: string[]
+}
+
+/**
+ * Result of running a single test file in its own `bun test` process
+ */
+export interface FileResult {
+  /** Test file path relative to the project root */
+  file: string
+  tests: TestResult[]
+  /** Wall-clock duration of the child process in milliseconds */
+  duration: number
+  exitCode: number
+  stdout: string
+  stderr: string
+  /** Set when the file produced no report (it failed to load or crashed) or failed its duration budget */
+  error?: TestError
+  /** LCOV coverage written by the process when coverage is enabled */
+  coverage?: string
+  /** Set when the file took longer than its duration budget */
+  overBudget?: boolean
+}
+
+/**
+ * Aggregated counts for a set of file results
+ */
+export interface RunSummary {
+  files: number
+  failedFiles: number
+  tests: number
+  passed: number
+  /** Tests that passed only after a retry; not counted in `passed` */
+  flaky: number
+  failed: number
+  skipped: number
+  todo: number
+  assertions: number
+  /** Duration in milliseconds */
+  duration: number
+  /** Test files cancelled or never started because the run bailed out; set only then */
+  skippedFiles?: number
+}
+
+/**
+ * Information passed to reporters when a run starts
+ */
+export interface RunContext {
+  /** Absolute path of the project root */
+  rootDir: string
+  /** Test files that will run, relative to the project root, in discovery order */
+  files: string[]
+  workers: number
+}
+
+/**
+ * Receives runner events.
+ *
+ * `onFileStart` fires when a worker picks a file up; the remaining per-file hooks
+ * fire once the file has finished, in discovery order, so output stays stable
+ * regardless of how many files run in parallel. Each file runs in its own process and
+ * its results are only known when that process exits, so `onTestResult` fires for all
+ * of the file's tests right before its `onFileEnd`; there is no hook for a test starting.
+ * Files cancelled by `bail`, and files in which the name or tag filter matched no test,
+ * get no further hooks and are left out of the results.
+ */
+export interface Reporter {
+  onRunStart?: (context: RunContext) => void | Promise<void>
+  onFileStart?: (file: string) => void | Promise<void>
+  onTestResult?: (test: TestResult) => void | Promise<void>
+  onFileEnd?: (result: FileResult) => void | Promise<void>
+  onRunEnd?: (results: FileResult[], summary: RunSummary) => void | Promise<void>
+}
+
+export type BuiltinReporterName = 'default' | 'junit' | 'json' | 'ndjson'
+
+export interface ReporterOptions {
+  /** File to write to, relative to the project root; reporters write to stdout without it */
+  outputFile?: string
+  [key: string]: unknown
+}
+
+/**
+ * Creates a reporter from its options. Reporter modules may default-export
+ * either a factory or a `Reporter` object.
+ */
+export interface ReporterFactory {
+  (options?: ReporterOptions): Reporter
+}
+
+/**
+ * A reporter as referenced from config: a built-in name, a module path
+ * (relative to the project root), a reporter object, or a name/path with options
+ */
+export type ReporterEntry = string | Reporter | [string, ReporterOptions]
@@ -0,0 +1,295 @@
+/* eslint-disable no-console */
+
+/**
+ * Watch Mode
+ *
+ * Reruns test files when the project changes. A static import graph of the test
+ * files decides which of them a saved file can affect, so only those rerun.
+ */
+
+import type { FSWatcher } from 'node:fs'
+import type { RunOptions } from './runner'
+import type { GlobalSetupSession } from './setup'
+import type { FileResult } from './types'
+import { existsSync, readFileSync, watch } from 'node:fs'
+import { dirname, extname, isAbsolute, resolve, sep } from 'node:path'
+import process from 'node:process'
+import { createInterface } from 'node:readline'
+import { reportCoverage } from './coverage'
+import { historyDir } from './history'
+import { colors } from './reporters'
+import { isFailedFile } from './results'
+import { discoverTestFiles, excludeMatcher, relativeTestPath, runTestFiles, searchRoots } from './runner'
+import { runGlobalSetup } from './setup'
+
+const loaders: Record<string, 'js' | 'jsx' | 'ts' | 'tsx'> = {
+  '.js': 'js',
+  '.mjs': 'js',
+  '.cjs': 'js',
+  '.jsx': 'jsx',
+  '.ts': 'ts',
+  '.mts': 'ts',
+  '.cts': 'ts',
+  '.tsx': 'tsx',
+}
+
+/**
+ * Import graph of the project's own modules, built from static `import`/`export ... from`
+ * statements and literal dynamic imports. Packages and built-in modules are left out.
+ */
+export class ImportGraph {
+  private imports = new Map<string, string[]>()
+
+  constructor(private rootDir: string) {}
+
+  /**
+   * Local modules a file imports directly (absolute paths)
+   */
+  directImports(file: string): string[] {
+    const cached = this.imports.get(file)
+    if (cached)
+      return cached
+
+    const imports = this.scan(file)
+    this.imports.set(file, imports)
+    return imports
+  }
+
+  /**
+   * Every local module a file depends on, directly or through other modules
+   */
+  dependenciesOf(file: string): Set<string> {
+    const seen = new Set<string>()
+    const pending = [file]
+
+    while (pending.length > 0) {
+      const current = pending.pop()!
+      for (const dependency of this.directImports(current)) {
+        if (!seen.has(dependency)) {
+          seen.add(dependency)
+          pending.push(dependency)
+        }
+      }
+    }
+
+    seen.delete(file)
+    return seen
+  }
+
+  /**
+   * Forget the cached imports of a changed or deleted file
+   */
+  invalidate(file: string): void {
+    this.imports.delete(file)
+  }
+
+  /**
+   * Test files that are themselves in `changed` or transitively import one of them
+   */
+  affectedTests(changed: Iterable<string>, testFiles: string[]): string[] {
+    const changedFiles = new Set(changed)
+
+    return testFiles.filter((testFile) => {
+      if (changedFiles.has(testFile))
+        return true
+
+      for (const dependency of this.dependenciesOf(testFile)) {
+        if (changedFiles.has(dependency))
+          return true
+      }
+      return false
+    })
+  }
+
+  private scan(file: string): string[] {
+    const loader = loaders[extname(file)]
+    if (!loader || !existsSync(file))
+      return []
+
+    let specifiers: string[]
+    try {
+      const transpiler = new Bun.Transpiler({ loader })
+      specifiers = transpiler.scanImports(readFileSync(file, 'utf8')).map(entry => entry.path)
+    }
+    catch {
+      // A file with a syntax error keeps no edges until it is fixed and rescanned
+      return []
+    }
+
+    const imports = new Set<string>()
+    for (const specifier of specifiers) {
+      try {
+        const resolved = Bun.resolveSync(specifier, dirname(file))
+        if (isAbsolute(resolved) && resolved.startsWith(this.rootDir) && !resolved.includes('/node_modules/'))
+          imports.add(resolved)
+      }
+      catch {
+        // Unresolvable imports cannot be watched
+      }
+    }
+
+    return [...imports]
+  }
+}
+
+function printWatchHelp(): void {
+  console.log(`\n${colors.dim}Watching for changes. Press ${colors.reset}a${colors.dim} to run all, ${colors.reset}f${colors.dim} to run failed, ${colors.reset}p${colors.dim} to filter by filename, ${colors.reset}q${colors.dim} to quit.${colors.reset}`)
+}
+
+/**
+ * Run the tests, then keep rerunning the affected ones whenever a watched file changes.
+ * Resolves with the exit code of the last run once the user quits.
+ */
+export async function watchTests(options: RunOptions = {}): Promise<number> {
+  const rootDir = options.cwd ?? process.cwd()
+  const isExcluded = excludeMatcher(options.exclude)
+  // Watch the sources and every test root, skipping directories already watched through a parent
+  const watchDirs = [...new Set(['src', ...searchRoots(options)].map(dir => resolve(rootDir, dir)))]
+    .filter(dir => existsSync(dir))
+    .filter((dir, _index, dirs) => !dirs.some(parent => parent !== dir && dir.startsWith(`${parent}${sep}`)))
+  const graph = new ImportGraph(rootDir)
+
+  let pattern = ''
+  const failedFiles = new Set<string>()
+  let exitCode = 0
+  let running: Promise<void> = Promise.resolve()
+
+  const testFiles = (): string[] => discoverTestFiles(options)
+    .filter(file => !pattern || relativeTestPath(file, rootDir).includes(pattern))
+
+  const run = (files: string[], label: string): Promise<void> => {
+    running = running.then(async () => {
+      if (files.length === 0) {
+        console.log(`\n${colors.yellow}No test files to run${pattern ? ` matching "${pattern}"` : ''}${colors.reset}`)
+        printWatchHelp()
+        return
+      }
+
+      console.log(`\n${colors.cyan}${label}${colors.reset}\n`)
+      const results: FileResult[] = await runTestFiles(files, options)
+      // Thresholds are not enforced here since most reruns cover only a few files
+      if (options.coverage?.enabled)
+        reportCoverage(results, rootDir, { ...options.coverage, thresholds: undefined })
+
+      for (const result of results) {
+        const file = resolve(rootDir, result.file)
+        if (isFailedFile(result))
+          failedFiles.add(file)
+        else
+          failedFiles.delete(file)
+      }
+      exitCode = failedFiles.size > 0 ? 1 : 0
+      printWatchHelp()
+    })
+    return running
+  }
+
+  // Collect changes for a short moment so a save touching several files triggers one run
+  const changed = new Set<string>()
+  let debounce: ReturnType<typeof setTimeout> | undefined
+
+  const onChange = (file: string): void => {
+    // The runner's own state and excluded files never trigger a run
+    const relativePath = relativeTestPath(file, rootDir)
+    if (relativePath.startsWith(`${historyDir}/`) || isExcluded(relativePath))
+      return
+
+    changed.add(file)
+    clearTimeout(debounce)
+    debounce = setTimeout(() => {
+      const files = [...changed]
+      changed.clear()
+      for (const file of files)
+        graph.invalidate(file)
+
+      const affected = graph.affectedTests(files, testFiles())
+      const names = files.map(file => relativeTestPath(file, rootDir)).join(', ')
+      if (affected.length === 0) {
+        console.log(`\n${colors.dim}Changed ${names}: no affected test files${colors.reset}`)
+        return
+      }
+      run(affected, `Changed ${names}: running ${affected.length} affected test file${affected.length === 1 ? '' : 's'}`)
+    }, 100)
+  }
+
+  let setup: GlobalSetupSession
+  try {
+    // One global setup serves every rerun until the user quits
+    setup = await runGlobalSetup(options)
+  }
+  catch (error) {
+    console.error(`${colors.red}Global setup failed:${colors.reset}`, error)
+    return 1
+  }
+
+  const watchers: FSWatcher[] = watchDirs.map(dir => watch(dir, { recursive: true }, (_event, filename) => {
+    if (filename)
+      onChange(resolve(dir, filename.toString()))
+  }))
+
+  try {
+    await run(testFiles(), 'Running all test files')
+  }
+  catch (error) {
+    // The first run fails this way only on bad options, e.g. an unknown reporter
+    for (const watcher of watchers)
+      watcher.close()
+    await setup.teardown()
+    throw error
+  }
+
+  return new Promise((resolveExit) => {
+    const stdin = process.stdin
+    if (!stdin.isTTY) {
+      // Without a terminal there are no keys to read; keep watching until the process is stopped
+      return
+    }
+
+    const quit = (): void => {
+      clearTimeout(debounce)
+      for (const watcher of watchers)
+        watcher.close()
+      stdin.setRawMode(false)
+      stdin.off('data', onKey)
+      stdin.pause()
+      running.then(async () => {
+        const errors = await setup.teardown()
+        for (const error of errors)
+          console.error(`${colors.red}Global teardown failed:${colors.reset}`, error)
+        resolveExit(errors.length > 0 ? 1 : exitCode)
+      })
+    }
+
+    const promptPattern = (): void => {
+      stdin.off('data', onKey)
+      stdin.setRawMode(false)
+
+      const readline = createInterface({ input: stdin, output: process.stdout })
+      readline.question('Filename pattern (empty to clear): ', (answer) => {
+        readline.close()
+        pattern = answer.trim()
+        stdin.setRawMode(true)
+        stdin.resume()
+        stdin.on('data', onKey)
+        run(testFiles(), pattern ? `Running test files matching "${pattern}"` : 'Running all test files')
+      })
+    }
+
+    function onKey(data: Buffer): void {
+      const key = data.toString()
+
+      if (key === 'q' || key === '\u0003')
+        quit()
+      else if (key === 'a')
+        run(testFiles(), 'Running all test files')
+      else if (key === 'f')
+        run(testFiles().filter(file => failedFiles.has(file)), 'Running failed test files')
+      else if (key === 'p')
+        promptPattern()
+    }
+
+    stdin.setRawMode(true)
+    stdin.resume()
+    stdin.on('data', onKey)
+  })
+}
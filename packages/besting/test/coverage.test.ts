@@ -0,0 +1,132 @@
+import type { FileResult } from '../src/types'
+import { describe, expect, test } from 'bun:test'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { checkCoverageThresholds, formatCoverageText, formatLcov, mergeCoverage, parseLcov, summarizeCoverage, uncoveredLines, writeHtmlReport } from '../src/coverage'
+
+const rootDir = '/project'
+
+// What Bun writes for `math.ts` when only `add` runs, and when only `sub` runs
+const addOnly = `TN:
+SF:src/math.ts
+FNF:2
+FNH:1
+DA:1,3
+DA:2,3
+DA:5,0
+DA:6,0
+DA:7,0
+LF:5
+LH:2
+end_of_record
+`
+const subOnly = `TN:
+SF:/project/src/math.ts
+FNF:2
+FNH:1
+DA:1,1
+DA:2,0
+DA:5,2
+DA:6,2
+DA:7,0
+LF:5
+LH:4
+end_of_record
+TN:
+SF:node_modules/dep/index.js
+FNF:1
+FNH:1
+DA:1,1
+LF:1
+LH:1
+end_of_record
+TN:
+SF:src/util.ts
+FNF:0
+FNH:0
+DA:1,1
+LF:1
+LH:1
+end_of_record
+`
+
+function fileResult(coverage?: string): FileResult {
+  return { file: 'test/a.test.ts', tests: [], duration: 1, exitCode: 0, stdout: '', stderr: '', coverage }
+}
+
+describe('merging coverage', () => {
+  const math = parseLcov(`${addOnly}\n${subOnly}`, rootDir).find(file => file.file === 'src/math.ts')!
+
+  test('sums line hits of the same file across processes', () => {
+    expect([...math.lines.entries()]).toEqual([[1, 4], [2, 3], [5, 2], [6, 2], [7, 0]])
+    expect(summarizeCoverage([math]).lines).toEqual({ covered: 4, total: 5, pct: 80 })
+  })
+
+  test('keeps the best function count since Bun does not name the functions', () => {
+    expect(math.functions).toEqual({ found: 2, hit: 1 })
+  })
+
+  test('leaves out node_modules and applies include and exclude', () => {
+    const results = [fileResult(addOnly), fileResult(subOnly), fileResult()]
+    expect(mergeCoverage(results, rootDir).map(file => file.file)).toEqual(['src/math.ts', 'src/util.ts'])
+    expect(mergeCoverage(results, rootDir, { include: ['src/util.ts'] }).map(file => file.file)).toEqual(['src/util.ts'])
+    expect(mergeCoverage(results, rootDir, { exclude: ['node_modules', 'src/math.ts'] }).map(file => file.file)).toEqual(['src/util.ts'])
+  })
+
+  test('writes the merged coverage back as LCOV', () => {
+    const files = parseLcov(`${addOnly}\n${subOnly}`, rootDir)
+    expect(parseLcov(formatLcov(files), rootDir)).toEqual(files)
+    expect(formatLcov([math])).toContain('DA:1,4\nDA:2,3\nDA:5,2\nDA:6,2\nDA:7,0\nLF:5\nLH:4\nend_of_record')
+  })
+})
+
+describe('coverage reports', () => {
+  const files = mergeCoverage([fileResult(addOnly), fileResult(subOnly)], rootDir)
+
+  test('collapses uncovered lines into ranges', () => {
+    const [file] = parseLcov('SF:a.ts\nDA:1,0\nDA:2,0\nDA:3,1\nDA:5,0\nDA:8,0\nDA:9,0\nend_of_record\n', rootDir)
+    expect(uncoveredLines(file)).toBe('1-2, 5, 8-9')
+  })
+
+  test('prints a text table with totals', () => {
+    expect(formatCoverageText(files).split('\n')).toEqual([
+      '-------------|---------|---------|------------------',
+      'File         | % Funcs | % Lines | Uncovered Line #s',
+      '-------------|---------|---------|------------------',
+      'All files    |   50.00 |   83.33 |',
+      ' src/math.ts |   50.00 |   80.00 | 7',
+      ' src/util.ts |  100.00 |  100.00 |',
+      '-------------|---------|---------|------------------',
+    ])
+  })
+
+  test('names the file and metric below a threshold', () => {
+    expect(checkCoverageThresholds(files, { lines: 90, functions: 40 })).toEqual([
+      'src/math.ts: lines coverage 80.00% is below the 90% threshold',
+    ])
+    expect(checkCoverageThresholds(files, { functions: 60 })).toEqual([
+      'src/math.ts: functions coverage 50.00% is below the 60% threshold',
+    ])
+    expect(checkCoverageThresholds(files, {})).toEqual([])
+  })
+
+  test('writes an HTML index and annotated source pages', () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'besting-coverage-'))
+    mkdirSync(join(projectDir, 'src'))
+    writeFileSync(join(projectDir, 'src/math.ts'), 'export function add(a, b) {\n  return a + b\n}\n\nexport function sub(a, b) {\n  return a - b\n}\n')
+
+    writeHtmlReport(files, projectDir, join(projectDir, 'coverage/html'))
+    const index = readFileSync(join(projectDir, 'coverage/html/index.html'), 'utf8')
+    const page = readFileSync(join(projectDir, 'coverage/html/src/math.ts.html'), 'utf8')
+
+    expect(index).toContain('<a href="src/math.ts.html">src/math.ts</a>')
+    expect(index).toContain('83.33% (5/6)')
+    expect(page).toContain('<tr class="uncovered"><td class="line">7</td><td class="hits">0</td><td><pre>}</pre></td></tr>')
+    expect(page).toContain('<a href="../index.html">All files</a>')
+    // Missing sources still get a page with the summary
+    expect(existsSync(join(projectDir, 'coverage/html/src/util.ts.html'))).toBe(true)
+
+    rmSync(projectDir, { recursive: true, force: true })
+  })
+})
@@ -0,0 +1,132 @@
+import { spawnSync } from 'bun'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { combineDatasets, dataset } from '../src/datasets'
+
+describe('datasets', () => {
+  test('turns rows into arguments and labels', () => {
+    expect(combineDatasets([[[1, 2, 3], 'plain', [{ id: 1 }, null]]])).toEqual([
+      { label: '(1, 2, 3)', args: [1, 2, 3] },
+      { label: '(\'plain\')', args: ['plain'] },
+      { label: '({"id":1}, null)', args: [{ id: 1 }, null] },
+    ])
+  })
+
+  test('uses the names of keyed rows and calls dataset functions', () => {
+    expect(combineDatasets([() => ({ gmail: 'a@gmail.com', outlook: ['b@outlook.com'] })])).toEqual([
+      { label: 'gmail', args: ['a@gmail.com'] },
+      { label: 'outlook', args: ['b@outlook.com'] },
+    ])
+  })
+
+  test('combines several datasets into every combination', () => {
+    dataset('days', ['Monday', 'Sunday'])
+
+    expect(combineDatasets([[9, 17], 'days'])).toEqual([
+      { label: '(9) / (\'Monday\')', args: [9, 'Monday'] },
+      { label: '(9) / (\'Sunday\')', args: [9, 'Sunday'] },
+      { label: '(17) / (\'Monday\')', args: [17, 'Monday'] },
+      { label: '(17) / (\'Sunday\')', args: [17, 'Sunday'] },
+    ])
+  })
+
+  test('rejects unknown dataset names', () => {
+    expect(() => combineDatasets(['missing'])).toThrow('Unknown dataset "missing" (available: days)')
+  })
+
+  describe('best().test().with()', () => {
+    const rootDir = mkdtempSync(join(tmpdir(), 'besting-datasets-'))
+
+    afterAll(() => {
+      rmSync(rootDir, { recursive: true, force: true })
+    })
+
+    // Runs a test file with Bun and returns its test names in report order, marking failures
+    const reportedTests = (fileName: string, source: string): string[] => {
+      const file = join(rootDir, fileName)
+      const report = join(rootDir, `${fileName}.xml`)
+      writeFileSync(file, `import { describe, test } from 'bun:test'
+import { best } from ${JSON.stringify(resolve(import.meta.dir, '../src/test'))}
+import { dataset } from ${JSON.stringify(resolve(import.meta.dir, '../src/datasets'))}
+${source}`)
+      spawnSync(['bun', 'test', file, '--reporter=junit', `--reporter-outfile=${report}`], { cwd: rootDir })
+      return [...readFileSync(report, 'utf8').matchAll(/<testcase name="([^"]*)"[^>]*?(\/>|>\s*<failure)/g)]
+        .map(([, name, end]) => `${name.replace(/&quot;/g, '"').replace(/&apos;/g, '\'')}${end === '/>' ? '' : ' (failed)'}`)
+    }
+
+    test('runs each row as a separately named test, in declaration order', () => {
+      const cases = reportedTests('math.test.ts', `
+
+const p = best()
+dataset('hours', [9, 17])
+
+p.describe('math', () => {
+  p.test('starts', () => {
+    p.it(1).toBe(1)
+  })
+
+  p.test('adds', (a: number, b: number, sum: number) => {
+    p.it(a + b).toBe(sum)
+  }).with([[1, 2, 3], [2, 2, 5]])
+
+  p.test('is open', { tags: ['unit'] }, (hour: number, day: string) => {
+    p.it(hour).toBeLessThan(18)
+    p.it(day).toEndWith('day')
+  }).with('hours').with({ weekday: 'Monday', weekend: 'Sunday' })
+
+  p.test('sums', (...values: number[]) => {
+    p.it(values.reduce((total, value) => total + value, 0)).toBe(6)
+  }).with([[1, 2, 3]])
+
+  p.test('calls done', (done: () => void) => {
+    setTimeout(done, 1)
+  })
+})
+`)
+
+      expect(cases).toEqual([
+        'starts',
+        'adds with data set "(1, 2, 3)"',
+        'adds with data set "(2, 2, 5)" (failed)',
+        'is open @unit with data set "(9) / weekday"',
+        'is open @unit with data set "(9) / weekend"',
+        'is open @unit with data set "(17) / weekday"',
+        'is open @unit with data set "(17) / weekend"',
+        'sums with data set "(1, 2, 3)"',
+        'calls done',
+      ])
+    }, 10000)
+
+    test('registers a best().test() after plain Bun tests that follow it in the same block', () => {
+      const cases = reportedTests('mixed.test.ts', `
+const p = best()
+
+p.test('top best', () => {})
+test('top plain', () => {})
+
+p.describe('best outer', () => {
+  p.test('best first', () => {})
+  p.test('best second', () => {})
+  test('plain after best', () => {})
+})
+
+describe('plain outer', () => {
+  test('plain first', () => {})
+  p.test('best after plain', () => {})
+})
+`)
+
+      expect(cases).toEqual([
+        'top plain',
+        'top best',
+        'best first',
+        'plain after best',
+        'best second',
+        'plain first',
+        'best after plain',
+      ])
+    }, 10000)
+  })
+})
@@ -0,0 +1,82 @@
+import type { FileResult, TestResult } from '../src/types'
+import { describe, expect, test } from 'bun:test'
+import { applyDurationBudget, durationBudget, formatBudgetReport, formatSlowReport } from '../src/durations'
+
+function testResult(name: string, duration: number, status: TestResult['status'] = 'pass'): TestResult {
+  return { file: 'test/a.test.ts', path: ['suite'], name, status, duration, assertions: 1 }
+}
+
+function fileResult(file: string, duration: number, tests: TestResult[] = []): FileResult {
+  return { file, tests: tests.map(test => ({ ...test, file })), duration, exitCode: 0, stdout: '', stderr: '' }
+}
+
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\x1B\[[0-9;]*m/g, '')
+
+describe('duration budgets', () => {
+  test('treat a number as the budget of each test', () => {
+    expect(durationBudget(500)).toEqual({ test: 500 })
+    expect(durationBudget({ file: 2000, fail: true })).toEqual({ file: 2000, fail: true })
+    expect(durationBudget()).toEqual({})
+  })
+
+  test('flag tests and files over budget without failing them', () => {
+    const result = applyDurationBudget(fileResult('test/a.test.ts', 3000, [testResult('fast', 10), testResult('slow', 800), testResult('later', 900, 'skip')]), { test: 500, file: 2000 })
+
+    expect(result.tests.map(test => test.overBudget)).toEqual([undefined, true, undefined])
+    expect(result.tests[1].status).toBe('pass')
+    expect(result.overBudget).toBe(true)
+    expect(result.error).toBeUndefined()
+  })
+
+  test('fail tests and files over budget when asked to', () => {
+    const result = applyDurationBudget(fileResult('test/a.test.ts', 3000, [testResult('slow', 800, 'flaky')]), { test: 500, file: 2000, fail: true })
+
+    expect(result.tests[0]).toMatchObject({ status: 'fail', overBudget: true, error: { message: 'Test took 800.00ms, over its 500.00ms budget', type: 'DurationBudgetError' } })
+    expect(result.error?.message).toBe('Test file took 3.00s, over its 2.00s budget')
+  })
+
+  test('list what went over budget', () => {
+    const results = [applyDurationBudget(fileResult('test/a.test.ts', 3000, [testResult('slow', 800)]), { test: 500, file: 2000 })]
+
+    expect(plain(formatBudgetReport(results, { test: 500, file: 2000 })).split('\n')).toEqual([
+      '1 test over the 500.00ms budget:',
+      '   800.00ms  test/a.test.ts > suite > slow',
+      '1 file over the 2.00s budget:',
+      '      3.00s  test/a.test.ts',
+    ])
+    expect(formatBudgetReport([fileResult('test/b.test.ts', 10)], { test: 500 })).toBe('')
+  })
+})
+
+describe('slow report', () => {
+  const results = [
+    fileResult('test/a.test.ts', 1200, [testResult('first', 100), testResult('second', 700), testResult('skipped', 0, 'skip')]),
+    fileResult('test/b.test.ts', 400, [testResult('third', 300)]),
+    fileResult('test/c.test.ts', 50, [testResult('fourth', 5)]),
+  ]
+
+  test('lists the slowest tests and files', () => {
+    expect(plain(formatSlowReport(results, 2, { files: {}, tests: {} })).split('\n')).toEqual([
+      'Slowest 2 tests:',
+      '   700.00ms  test/a.test.ts > suite > second',
+      '   300.00ms  test/b.test.ts > suite > third',
+      'Slowest 2 files:',
+      '      1.20s  test/a.test.ts',
+      '   400.00ms  test/b.test.ts',
+    ])
+  })
+
+  test('compares durations with previous runs and highlights regressions', () => {
+    const report = formatSlowReport(results, 1, {
+      files: { 'test/a.test.ts': [1000, 1400] },
+      tests: { 'test/a.test.ts > suite > second': [300, 300] },
+    })
+    const [, slowestTest, , slowestFile] = report.split('\n')
+
+    expect(plain(slowestTest)).toBe('   700.00ms  test/a.test.ts > suite > second (avg 300.00ms over 2 runs, +133%)')
+    expect(slowestTest).toContain('\x1B[31m(')
+    expect(plain(slowestFile)).toBe('      1.20s  test/a.test.ts (avg 1.20s over 2 runs, +0%)')
+    expect(slowestFile).not.toContain('\x1B[31m')
+  })
+})
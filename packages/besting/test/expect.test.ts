@@ -0,0 +1,252 @@
+import type { CustomMatchers } from '../src/test'
+import { spawnSync } from 'bun'
+import { afterAll, describe, expect as bunExpect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { expect, softly, testGroup } from '../src/test'
+
+declare module '../src/test' {
+  interface CustomMatchers<T> {
+    toBeValidOrderId: () => CustomMatchers<T>
+    toBeWithin: (floor: number, ceiling: number) => CustomMatchers<T>
+  }
+}
+
+expect.extend({
+  toBeValidOrderId(received) {
+    return {
+      pass: typeof received === 'string' && /^ORD-\d{6}$/.test(received),
+      message: () => `expected ${received} ${this.isNot ? 'not ' : ''}to be a valid order id`,
+    }
+  },
+  toBeWithin(received: number, floor: number, ceiling: number) {
+    return { pass: received >= floor && received <= ceiling, message: `expected ${received} to be within ${floor}..${ceiling}` }
+  },
+})
+
+describe('expect.extend', () => {
+  test('registered matchers pass, fail with their message and chain', () => {
+    const chained: CustomMatchers<string> = expect('ORD-123456').toBeValidOrderId().toStartWith('ORD')
+    bunExpect(chained).toBeDefined()
+    expect(5).toBeWithin(1, 10).toBe(5)
+
+    bunExpect(() => expect('123').toBeValidOrderId()).toThrow('expected 123 to be a valid order id')
+    bunExpect(() => expect(11).toBeWithin(1, 10)).toThrow('expected 11 to be within 1..10')
+  })
+
+  test('negates registered matchers with .not', () => {
+    // Negation carries on along the chain
+    expect('nope').not.toBeValidOrderId().toStartWith('ORD')
+    bunExpect(() => expect('ORD-123456').not.toBeValidOrderId()).toThrow('expected ORD-123456 not to be a valid order id')
+  })
+
+  test('withMessage replaces the failure message', () => {
+    bunExpect(() => expect('123').withMessage('order ids come from the API').toBeValidOrderId()).toThrow('order ids come from the API')
+  })
+
+  test('built-in string and emptiness matchers use the same registry', () => {
+    expect('Hello World').toStartWith('Hello').toEndWith('World').not.toBeEmpty()
+    expect([]).toBeEmpty()
+    bunExpect(() => expect('Hello').toEndWith('x')).toThrow('expected "Hello" to end with "x"')
+    bunExpect(() => expect({ a: 1 }).toBeEmpty()).toThrow('expected value to be empty, but it has 1 item')
+    bunExpect(() => expect(1).toStartWith('1')).toThrow('toStartWith can only be used with strings')
+  })
+
+  test('rejects names that are part of the chain', () => {
+    bunExpect(() => expect.extend({ not: () => ({ pass: true, message: '' }) })).toThrow('Cannot register a matcher named "not"')
+  })
+})
+
+describe('soft assertions', () => {
+  const softError = (fn: () => void): string => {
+    try {
+      fn()
+    }
+    catch (error) {
+      return (error as Error).message
+    }
+    throw new Error('expected the block to fail')
+  }
+
+  test('softly runs every assertion and reports the failures together with their locations', () => {
+    const checked: string[] = []
+    const message = softError(() => softly(() => {
+      expect(1).toBe(2).toBeGreaterThan(0)
+      checked.push('after the first failure')
+      expect('order').withMessage('not an order id').toBeValidOrderId()
+      expect([1]).toPass(items => items.length > 1, 'needs two items')
+      expect('done').not.toBeEmpty()
+    }))
+
+    bunExpect(checked).toEqual(['after the first failure'])
+    bunExpect(message).toStartWith('3 soft assertions failed:')
+    bunExpect(message).toContain('2) not an order id')
+    bunExpect(message).toContain('3) needs two items')
+    bunExpect(message.match(/at \S+expect\.test\.ts:\d+:\d+/g)).toHaveLength(3)
+  })
+
+  test('softly passes when every assertion does, and waits for async blocks', async () => {
+    softly(() => {
+      expect(1).toBe(1)
+    })
+    await bunExpect(softly(async () => {
+      await Bun.sleep(1)
+      expect('a').toBe('b')
+    })).rejects.toThrow('1 soft assertion failed')
+  })
+
+  test('testGroup collects every failure on the value in soft mode', () => {
+    const message = softError(() => testGroup('Hello World', (str) => {
+      str.toStartWith('Bye').toEndWith('World').toHaveLength(3)
+    }, { soft: true }))
+
+    bunExpect(message).toStartWith('2 soft assertions failed:')
+    bunExpect(message).toContain('expected "Hello World" to start with "Bye"')
+  })
+
+  describe('expect.soft', () => {
+    const rootDir = mkdtempSync(join(tmpdir(), 'besting-soft-'))
+
+    afterAll(() => {
+      rmSync(rootDir, { recursive: true, force: true })
+    })
+
+    test('fails the test when it finishes, after the remaining code has run', () => {
+      const file = join(rootDir, 'soft.test.ts')
+      writeFileSync(file, `import { test } from 'bun:test'
+import { expect } from ${JSON.stringify(resolve(import.meta.dir, '../src/test'))}
+
+test('response', () => {
+  expect.soft(404).toBe(200)
+  expect.soft({ id: 1 }).toHaveProperty('name')
+  console.log('still running')
+})
+
+test('unaffected', () => {
+  expect.soft(1).toBe(1)
+})
+`)
+      const { stdout, stderr } = spawnSync(['bun', 'test', file], { cwd: rootDir })
+      const output = `${stdout.toString()}${stderr.toString()}`
+
+      bunExpect(output).toContain('still running')
+      bunExpect(output).toContain('2 soft assertions failed:')
+      bunExpect(output).toMatch(/at \S+soft\.test\.ts:5:\d+/)
+      bunExpect(output).toMatch(/1 pass\s+1 fail/)
+    }, 10000)
+  })
+})
+
+describe('collection expectations', () => {
+  const failure = (fn: () => void): string => {
+    try {
+      fn()
+    }
+    catch (error) {
+      return (error as Error).message
+    }
+    throw new Error('expected the assertion to fail')
+  }
+
+  test('each applies every chained matcher to each item', () => {
+    expect([1, 2, 3]).each.toBeGreaterThan(0).toBeLessThan(10).not.toBe(5)
+    expect(new Set(['ORD-000001', 'ORD-000002'])).each.toBeValidOrderId().toStartWith('ORD')
+    expect([] as number[]).each.toBe(1)
+  })
+
+  test('each reports the index of every failing item', () => {
+    const message = failure(() => expect([1, 0, 3, null]).each.toBeTruthy())
+
+    bunExpect(message).toStartWith('expected every item to pass toBeTruthy, but 2 of 4 items failed:')
+    bunExpect(message).toContain('[1] expect(received).toBeTruthy()')
+    bunExpect(message).toContain('[3] expect(received).toBeTruthy()')
+    bunExpect(message).not.toContain('[0]')
+  })
+
+  test('each supports negation and custom messages', () => {
+    expect(['a', 'b']).not.each.toBeEmpty()
+    bunExpect(failure(() => expect(['a', '']).each.not.toBeEmpty())).toContain('expected every item not to pass toBeEmpty, but 1 of 2 items failed')
+    bunExpect(failure(() => expect([1, 2]).each.withMessage('ids must be even').toPass(id => id % 2 === 0))).toContain('[0] ids must be even')
+  })
+
+  test('sequence applies one expectation per item, in order', () => {
+    expect([1, 'two', { three: 3 }]).sequence(
+      item => item.toBe(1),
+      item => item.toEqual('two'),
+      { three: 3 },
+    )
+
+    const message = failure(() => expect([1, 2, 3]).sequence(item => item.toBe(1), 5))
+    bunExpect(message).toStartWith('expected the items to match the sequence, but 2 of 3 items failed:')
+    bunExpect(message).toContain('[1] expect(received).toEqual(expected)')
+    bunExpect(message).toContain('[2] expect(received).toBe(expected)')
+  })
+
+  test('sequence repeats the expectations and passes the index', () => {
+    const indexes: number[] = []
+    expect(['a', 'b', 'c']).sequence((item, index) => {
+      indexes.push(index)
+      item.toHaveLength(1)
+    })
+    bunExpect(indexes).toEqual([0, 1, 2])
+
+    expect([1, 1]).not.sequence(item => item.toBe(2))
+    bunExpect(() => expect([] as number[]).sequence(1)).toThrow('sequence cannot be used with an empty collection')
+    bunExpect(() => expect('abc').each.toBe('a')).toThrow('each can only be used with arrays and other iterables')
+  })
+
+  test('collection failures count as one soft assertion', () => {
+    const message = failure(() => softly(() => {
+      expect([1, 2]).each.toBe(1)
+      expect([1, 2]).sequence(1, 1)
+    }))
+
+    bunExpect(message).toStartWith('2 soft assertions failed:')
+    bunExpect(message).toContain('1) expected every item to pass toBe, but 1 of 2 items failed:')
+  })
+})
+
+describe('higher-order expectations', () => {
+  const user = { name: 'John', email: 'john@example.com', address: { city: 'Paris', zip: '75001' }, roles: ['admin', 'editor'] }
+  const failure = (fn: () => void): string => {
+    try {
+      fn()
+    }
+    catch (error) {
+      return (error as Error).message
+    }
+    throw new Error('expected the assertion to fail')
+  }
+
+  test('properties expect the property, and return to the subject after a matcher', () => {
+    expect(user).name.toBe('John').email.toContain('@').address.city.toBe('Paris').roles.toHaveLength(2)
+    expect(user).toBeDefined().name.toStartWith('J')
+    expect(user).roles[0].toBe('admin')
+    expect('text').length.toBe(4)
+  })
+
+  test('failures name the property path', () => {
+    bunExpect(failure(() => expect(user).address.city.toBe('Berlin'))).toStartWith('address.city: expect(received).toBe(expected)')
+    bunExpect(failure(() => expect(user).roles[1].toBeValidOrderId())).toBe('roles[1]: expected editor to be a valid order id')
+    bunExpect(failure(() => softly(() => {
+      expect(user).name.toBe('Jane').email.toEndWith('.org')
+    }))).toContain('2) email: expected "john@example.com" to end with ".org"')
+  })
+
+  test('negation applies to the property, not to the next one', () => {
+    expect(user).not.name.toBe('Jane').email.toContain('@')
+    expect(user).name.not.toBeEmpty().address.zip.toHaveLength(5)
+  })
+
+  test('and switches the subject', () => {
+    const order = { id: 'ORD-000001', total: 20 }
+    expect(user).name.toBe('John').and(order).id.toBeValidOrderId().total.toBeGreaterThan(10)
+    expect(1).not.toBe(2).and(2).toBe(2)
+  })
+
+  test('unknown names are reported instead of returning undefined', () => {
+    bunExpect(() => (expect(user) as any).toBeJohn()).toThrow('"toBeJohn" is neither a matcher nor a property of the value')
+    bunExpect(() => (expect(user).address as any).country).toThrow('"country" is neither a matcher nor a property of address')
+  })
+})
@@ -0,0 +1,117 @@
+import type { FileResult, TestResult } from '../src/types'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { durationHistoryLength, readDurationHistory, readLastRun, testNamePattern, writeDurationHistory, writeLastRun } from '../src/history'
+
+function testResult(file: string, name: string, status: TestResult['status'], path: string[] = []): TestResult {
+  return { file, path, name, status, duration: 1, assertions: 1 }
+}
+
+function fileResult(file: string, tests: TestResult[], overrides: Partial<FileResult> = {}): FileResult {
+  const failed = tests.some(test => test.status === 'fail')
+  return { file, tests, duration: 1, exitCode: failed ? 1 : 0, stdout: '', stderr: '', ...overrides }
+}
+
+describe('last run', () => {
+  let rootDir: string
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'besting-history-'))
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('is missing before the first run', () => {
+    expect(readLastRun(rootDir)).toBeUndefined()
+  })
+
+  test('records failed files and test names', () => {
+    writeLastRun(rootDir, [
+      fileResult('test/a.test.ts', [testResult('test/a.test.ts', 'works', 'pass'), testResult('test/a.test.ts', 'breaks', 'fail', ['suite'])]),
+      fileResult('test/b.test.ts', [testResult('test/b.test.ts', 'works', 'pass')]),
+      fileResult('test/c.test.ts', [], { exitCode: 1, error: { message: 'Cannot find module' } }),
+    ])
+
+    expect(readLastRun(rootDir)?.failures).toEqual([
+      { file: 'test/a.test.ts', tests: [{ path: ['suite'], name: 'breaks' }] },
+      { file: 'test/c.test.ts', tests: [] },
+    ])
+  })
+
+  test('keeps failures of files that did not run again', () => {
+    writeLastRun(rootDir, [
+      fileResult('test/a.test.ts', [testResult('test/a.test.ts', 'breaks', 'fail')]),
+      fileResult('test/b.test.ts', [testResult('test/b.test.ts', 'breaks', 'fail')]),
+    ])
+    writeLastRun(rootDir, [fileResult('test/a.test.ts', [testResult('test/a.test.ts', 'breaks', 'pass')])])
+
+    expect(readLastRun(rootDir)?.failures.map(failure => failure.file)).toEqual(['test/b.test.ts'])
+  })
+
+  test('keeps failures of tests a filtered run left out', () => {
+    writeLastRun(rootDir, [
+      fileResult('test/a.test.ts', [testResult('test/a.test.ts', 'adds', 'pass'), testResult('test/a.test.ts', 'fails', 'fail'), testResult('test/a.test.ts', 'breaks', 'fail')]),
+      fileResult('test/b.test.ts', [testResult('test/b.test.ts', 'flaky one', 'fail')]),
+    ])
+    // e.g. `besting test -t "adds|breaks"`: tests outside the pattern are not in the results
+    writeLastRun(rootDir, [
+      fileResult('test/a.test.ts', [testResult('test/a.test.ts', 'adds', 'pass'), testResult('test/a.test.ts', 'breaks', 'pass')]),
+      fileResult('test/b.test.ts', []),
+    ])
+
+    expect(readLastRun(rootDir)?.failures).toEqual([
+      { file: 'test/a.test.ts', tests: [{ path: [], name: 'fails' }] },
+      { file: 'test/b.test.ts', tests: [{ path: [], name: 'flaky one' }] },
+    ])
+  })
+})
+
+describe('duration history', () => {
+  let rootDir: string
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'besting-history-'))
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('records files and tests that ran', () => {
+    writeDurationHistory(rootDir, [
+      fileResult('test/a.test.ts', [testResult('test/a.test.ts', 'works', 'pass', ['suite']), testResult('test/a.test.ts', 'later', 'skip')], { duration: 12.345 }),
+    ])
+
+    expect(readDurationHistory(rootDir)).toEqual({
+      files: { 'test/a.test.ts': [12.35] },
+      tests: { 'test/a.test.ts > suite > works': [1] },
+    })
+  })
+
+  test('keeps only the most recent runs', () => {
+    for (let run = 1; run <= durationHistoryLength + 2; run++)
+      writeDurationHistory(rootDir, [fileResult('test/a.test.ts', [], { duration: run })])
+
+    const durations = readDurationHistory(rootDir).files['test/a.test.ts']
+    expect(durations).toHaveLength(durationHistoryLength)
+    expect(durations.at(-1)).toBe(durationHistoryLength + 2)
+  })
+})
+
+describe('test name patterns', () => {
+  test('match exactly the given full names', () => {
+    const pattern = new RegExp(testNamePattern([
+      { path: ['math', 'add'], name: 'handles (negative) numbers?' },
+      { path: [], name: 'top' },
+    ]))
+
+    expect(pattern.test('math add handles (negative) numbers?')).toBe(true)
+    expect(pattern.test('top')).toBe(true)
+    expect(pattern.test('math add handles negative numbers')).toBe(false)
+    expect(pattern.test('top level')).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { initProject, mergeConfigSource } from '../src/init'
+
+describe('besting init', () => {
+  let rootDir: string
+  const read = (file: string): string => readFileSync(join(rootDir, file), 'utf8')
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'besting-init-'))
+  })
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('scaffolds a config, example tests and a test script', async () => {
+    writeFileSync(join(rootDir, 'package.json'), '{\n    "name": "app",\n    "scripts": {\n        "build": "bun build"\n    }\n}\n')
+
+    const result = await initProject({ cwd: rootDir })
+
+    expect(result).toEqual({
+      created: ['besting.config.ts', 'test/example.test.ts', 'test/page.test.ts'],
+      merged: ['package.json'],
+      skipped: [],
+    })
+    expect(read('besting.config.ts')).toContain('export default defineConfig({\n  roots: [\'test\'],')
+    expect(read('test/example.test.ts')).toContain('testGroup(\'Hello World\'')
+    expect(read('test/page.test.ts')).toContain('await browse(async (page) => {')
+    expect(read('package.json')).toBe('{\n    "name": "app",\n    "scripts": {\n        "build": "bun build",\n        "test": "besting test"\n    }\n}\n')
+  })
+
+  test('keeps existing files unless forced', async () => {
+    await initProject({ cwd: rootDir })
+    writeFileSync(join(rootDir, 'test/example.test.ts'), '// mine\n')
+
+    expect((await initProject({ cwd: rootDir })).created).toEqual([])
+    expect(read('test/example.test.ts')).toBe('// mine\n')
+
+    expect((await initProject({ cwd: rootDir, force: true })).created).toEqual(['besting.config.ts', 'test/example.test.ts', 'test/page.test.ts'])
+    expect(read('test/example.test.ts')).not.toBe('// mine\n')
+  })
+
+  test('offers to merge the missing defaults into an existing config', async () => {
+    const config = 'import type { BestingConfig } from \'besting\'\n\nconst config: BestingConfig = {\n  verbose: false,\n  retry: 2\n}\n\nexport default config\n'
+    writeFileSync(join(rootDir, 'besting.config.ts'), config)
+    const questions: string[] = []
+
+    const declined = await initProject({ cwd: rootDir, confirm: async (question) => {
+      questions.push(question)
+      return false
+    } })
+    expect(declined.skipped).toContain('besting.config.ts')
+    expect(read('besting.config.ts')).toBe(config)
+    expect(questions).toEqual(['besting.config.ts already exists. Merge the missing defaults into it?'])
+
+    const accepted = await initProject({ cwd: rootDir, confirm: async () => true })
+    expect(accepted.merged).toContain('besting.config.ts')
+    expect(read('besting.config.ts')).toBe('import type { BestingConfig } from \'besting\'\n\nconst config: BestingConfig = {\n  verbose: false,\n  retry: 2,\n  roots: [\'test\'],\n  reporters: [\'default\'],\n  testTimeout: 5000,\n}\n\nexport default config\n')
+    expect(existsSync(join(rootDir, 'besting.config.js'))).toBe(false)
+  })
+
+  test('merges settings before the end of the exported object', () => {
+    expect(mergeConfigSource('export default defineConfig({\n  roots: [\'spec\'],\n})\n', { roots: '[\'test\']', retry: '0' }))
+      .toBe('export default defineConfig({\n  roots: [\'spec\'],\n  retry: 0,\n})\n')
+    expect(mergeConfigSource('export default {} satisfies BestingConfig\n', { retry: '0' }))
+      .toBe('export default {\n  retry: 0,\n} satisfies BestingConfig\n')
+    expect(mergeConfigSource('export default loadSharedConfig()\n', { retry: '0' })).toBeUndefined()
+  })
+})
@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { collectTests, formatTestList, formatTestListJson, listTests } from '../src/list'
+
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\x1B\[[0-9;]*m/g, '')
+
+const source = `import { best, describe, expect, test } from 'besting'
+
+const p = best()
+const pattern = /describe\\('fake', \\(\\) => \\{/ // test('commented out', () => {})
+
+describe('math @unit', () => {
+  test('adds', () => {
+    expect(pattern.test('describe(')).toBe(true)
+  })
+
+  describe.skip('division', () => {
+    it("divides by \\"zero\\"", () => {})
+  })
+
+  test.each([[1, 2]])('doubles %i', (a, b) => {
+    expect(a * 2).toBe(b)
+  })
+
+  test.todo('rounds')
+})
+
+p.describe(\`templates\`, () => {
+  p.test('tagged', { tags: ['browser', 'slow'] }, async () => {
+    const html = \`<p>\${'test("not a test", () => {})'}</p>\`
+  })
+})
+
+test.only('focused', () => {})
+`
+
+describe('collecting tests statically', () => {
+  test('finds tests with their describe path, line and mode', () => {
+    expect(collectTests(source)).toEqual([
+      { path: ['math @unit'], name: 'adds', line: 7, tags: ['unit'] },
+      { path: ['math @unit', 'division'], name: 'divides by "zero"', line: 12, tags: ['unit'], mode: 'skip' },
+      { path: ['math @unit'], name: 'doubles %i', line: 15, tags: ['unit'] },
+      { path: ['math @unit'], name: 'rounds', line: 19, tags: ['unit'], mode: 'todo' },
+      { path: ['templates'], name: 'tagged @browser @slow', line: 23, tags: ['browser', 'slow'] },
+      { path: [], name: 'focused', line: 28, mode: 'only' },
+    ])
+  })
+})
+
+describe('besting list', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-list-'))
+  mkdirSync(join(rootDir, 'test'))
+  writeFileSync(join(rootDir, 'test/math.test.ts'), source)
+  writeFileSync(join(rootDir, 'test/empty.test.ts'), 'import { test } from \'bun:test\'\n')
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('lists the discovered files and their tests', () => {
+    const files = listTests({ cwd: rootDir })
+    expect(Object.fromEntries(files.map(file => [file.file, file.tests.length]))).toEqual({ 'test/empty.test.ts': 0, 'test/math.test.ts': 6 })
+  })
+
+  test('applies the name pattern and tags', () => {
+    const names = (options: Parameters<typeof listTests>[0]): string[] =>
+      listTests({ cwd: rootDir, ...options }).flatMap(file => file.tests.map(test => test.name))
+
+    expect(names({ testNamePattern: 'math .*(division|doubles)' })).toEqual(['divides by "zero"', 'doubles %i'])
+    expect(names({ tags: ['unit'], excludeTags: ['slow'] })).toEqual(['adds', 'divides by "zero"', 'doubles %i', 'rounds'])
+    expect(names({ tags: ['browser'] })).toEqual(['tagged @browser @slow'])
+  })
+
+  test('prints a tree and JSON', () => {
+    const files = listTests({ cwd: rootDir, testNamePattern: 'division|templates' })
+
+    expect(plain(formatTestList(files)).split('\n')).toEqual([
+      'test/math.test.ts',
+      '  math @unit',
+      '    division',
+      '      divides by "zero" (skip)',
+      '  templates',
+      '    tagged @browser @slow',
+      '',
+      '2 tests in 1 file',
+    ])
+    expect(JSON.parse(formatTestListJson(files))).toMatchObject({ summary: { files: 1, tests: 2 }, files: [{ file: 'test/math.test.ts' }] })
+  })
+})
@@ -0,0 +1,79 @@
+import type { BestingConfig } from '../src/types'
+import { afterAll, afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import process from 'node:process'
+import { applyProfile, loadProfileEnv, parseEnv } from '../src/profiles'
+
+describe('env profiles', () => {
+  const config: BestingConfig = {
+    workers: 8,
+    reporters: ['default'],
+    coverage: { enabled: false, thresholds: { lines: 80, functions: 70 } },
+    api: { baseUrl: 'http://localhost:3000' },
+    profiles: {
+      ci: {
+        workers: 2,
+        reporters: ['junit'],
+        coverage: { enabled: true, thresholds: { lines: 90 } },
+      },
+      staging: { api: { baseUrl: 'http://staging.internal' } },
+    },
+  }
+
+  test('merges a profile over the base config', () => {
+    expect(applyProfile(config, 'ci')).toMatchObject({
+      workers: 2,
+      reporters: ['junit'],
+      coverage: { enabled: true, thresholds: { lines: 90, functions: 70 } },
+      api: { baseUrl: 'http://localhost:3000' },
+    })
+    expect(applyProfile(config, 'staging').api).toEqual({ baseUrl: 'http://staging.internal' })
+    expect(config.workers).toBe(8)
+  })
+
+  test('rejects unknown profiles', () => {
+    expect(() => applyProfile(config, 'prod')).toThrow('Unknown env profile "prod" (available: ci, staging)')
+    expect(() => applyProfile({}, 'ci')).toThrow('Unknown env profile "ci", no profiles are configured')
+  })
+})
+
+describe('.env files', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-env-'))
+
+  afterEach(() => {
+    delete process.env.BESTING_TEST_API_URL
+    delete process.env.BESTING_TEST_TOKEN
+  })
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('parses keys, quoted values and comments', () => {
+    expect(parseEnv([
+      '# CI settings',
+      'API_URL=http://localhost:3000 # local',
+      'export TOKEN="a b\\nc"',
+      'RAW=\'$HOME #1\'',
+      'EMPTY=',
+      'not a variable',
+    ].join('\n'))).toEqual({
+      API_URL: 'http://localhost:3000',
+      TOKEN: 'a b\nc',
+      RAW: '$HOME #1',
+      EMPTY: '',
+    })
+  })
+
+  test('loads the profile file without overriding variables already set', () => {
+    writeFileSync(join(rootDir, '.env.ci'), 'BESTING_TEST_API_URL=http://ci.internal\nBESTING_TEST_TOKEN=from-file\n')
+    process.env.BESTING_TEST_TOKEN = 'from-shell'
+
+    expect(loadProfileEnv(rootDir, 'ci')).toEqual({ BESTING_TEST_API_URL: 'http://ci.internal', BESTING_TEST_TOKEN: 'from-file' })
+    expect(process.env.BESTING_TEST_API_URL).toBe('http://ci.internal')
+    expect(process.env.BESTING_TEST_TOKEN).toBe('from-shell')
+    expect(loadProfileEnv(rootDir, 'missing')).toEqual({})
+  })
+})
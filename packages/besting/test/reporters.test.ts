@@ -0,0 +1,216 @@
+import type { FileResult } from '../src/types'
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createReporter, escapeXml, formatJsonReport, formatJUnitReport, ndjsonReporter, resolveReporters } from '../src/reporters'
+import { parseJUnitReport, parseXml, summarize } from '../src/results'
+
+const results: FileResult[] = [
+  {
+    file: 'test/math.test.ts',
+    duration: 25,
+    exitCode: 1,
+    stdout: '',
+    stderr: '\x1B[31mwarning: <deprecated>\x1B[0m',
+    tests: [
+      { file: 'test/math.test.ts', path: ['math', 'add'], name: 'adds', status: 'pass', duration: 1.5, line: 4, assertions: 1 },
+      {
+        file: 'test/math.test.ts',
+        path: ['math'],
+        name: 'divides & "rounds"',
+        status: 'fail',
+        duration: 2,
+        assertions: 1,
+        error: { message: 'Expected: 2', stack: 'AssertionError: Expected: 2\n    at math.test.ts:9:3', type: 'AssertionError' },
+      },
+      { file: 'test/math.test.ts', path: [], name: 'later', status: 'skip', duration: 0, assertions: 0 },
+      { file: 'test/math.test.ts', path: [], name: 'someday', status: 'todo', duration: 0, assertions: 0 },
+    ],
+  },
+  {
+    file: 'test/broken.test.ts',
+    duration: 10,
+    exitCode: 1,
+    stdout: 'bun test v1.2.0',
+    stderr: '',
+    tests: [],
+    error: { message: 'Cannot find module', stack: 'error: Cannot find module \'./missing\'' },
+  },
+]
+
+describe('JUnit reporter', () => {
+  const xml = formatJUnitReport(results, 40)
+  const root = parseXml(xml)
+  const [math, broken] = root.children
+
+  test('escapes XML special characters', () => {
+    expect(escapeXml('<a href="x">\'&\'</a>\u0001')).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;')
+  })
+
+  test('emits one testsuite per file with totals', () => {
+    expect(root.name).toBe('testsuites')
+    expect(root.attributes).toMatchObject({ tests: '5', failures: '1', errors: '1', skipped: '2', time: '0.04' })
+    expect(root.children.map(suite => suite.attributes.name)).toEqual(['test/math.test.ts', 'test/broken.test.ts'])
+    expect(math.attributes).toMatchObject({ tests: '4', failures: '1', errors: '0', skipped: '2', time: '0.025' })
+  })
+
+  test('emits one testcase per test with failures and skipped markers', () => {
+    const cases = math.children.filter(child => child.name === 'testcase')
+    expect(cases).toHaveLength(4)
+    expect(cases[0].attributes).toMatchObject({ name: 'adds', classname: 'math > add', time: '0.0015', line: '4' })
+
+    const failure = cases[1].children[0]
+    expect(failure.name).toBe('failure')
+    expect(failure.attributes).toMatchObject({ message: 'Expected: 2', type: 'AssertionError' })
+    expect(failure.text).toContain('at math.test.ts:9:3')
+
+    expect(cases[2].children[0].name).toBe('skipped')
+    expect(cases[3].children[0].attributes.message).toBe('TODO')
+  })
+
+  test('includes captured output without ANSI codes', () => {
+    const stderr = math.children.find(child => child.name === 'system-err')
+    expect(stderr?.text).toBe('warning: <deprecated>')
+    expect(broken.children.find(child => child.name === 'system-out')?.text).toBe('bun test v1.2.0')
+  })
+
+  test('reports files that failed to load as errors', () => {
+    const testCase = broken.children.find(child => child.name === 'testcase')
+    expect(testCase?.children[0].name).toBe('error')
+    expect(testCase?.children[0].attributes.message).toBe('Cannot find module')
+  })
+
+  test('can be read back by the JUnit parser', () => {
+    const suite = xml.slice(0, xml.indexOf('<testsuite name="test/broken.test.ts"'))
+    const parsed = parseJUnitReport(`${suite}</testsuites>`, 'test/math.test.ts')
+    expect(parsed.map(t => [t.path, t.name, t.status])).toEqual(results[0].tests.map(t => [t.path, t.name, t.status]))
+  })
+})
+
+describe('flaky tests', () => {
+  const flaky: FileResult = {
+    file: 'test/browser.test.ts',
+    duration: 30,
+    exitCode: 0,
+    stdout: '',
+    stderr: '',
+    tests: [
+      { file: 'test/browser.test.ts', path: ['page'], name: 'loads', status: 'pass', duration: 3, assertions: 1 },
+      {
+        file: 'test/browser.test.ts',
+        path: ['page'],
+        name: 'clicks',
+        status: 'flaky',
+        duration: 5,
+        assertions: 1,
+        retries: 2,
+        error: { message: 'element not found', stack: 'Error: element not found\n    at browser.test.ts:7:5', type: 'Error' },
+      },
+    ],
+  }
+
+  test('are counted separately from passed tests', () => {
+    expect(summarize([flaky])).toMatchObject({ failedFiles: 0, tests: 2, passed: 1, flaky: 1, failed: 0 })
+  })
+
+  test('are marked with flakyFailure in JUnit and read back', () => {
+    const xml = formatJUnitReport([flaky])
+    const [suite] = parseXml(xml).children
+    const testCase = suite.children.filter(child => child.name === 'testcase')[1]
+
+    expect(suite.attributes).toMatchObject({ failures: '0', tests: '2' })
+    expect(testCase.attributes.retries).toBe('2')
+    expect(testCase.children[0].name).toBe('flakyFailure')
+    expect(testCase.children[0].attributes.message).toBe('element not found')
+
+    const [, parsed] = parseJUnitReport(xml, flaky.file)
+    expect(parsed).toMatchObject({ status: 'flaky', retries: 2, error: { message: 'element not found' } })
+  })
+
+  test('keep their status and retries in JSON', () => {
+    const report = JSON.parse(formatJsonReport([flaky], summarize([flaky])))
+    expect(report.summary.flaky).toBe(1)
+    expect(report.files[0].tests[1]).toMatchObject({ status: 'flaky', retries: 2 })
+  })
+})
+
+describe('JSON reporters', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-reporters-'))
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('formats one summary document', () => {
+    const report = JSON.parse(formatJsonReport(results, summarize(results, 40)))
+    expect(report.summary).toMatchObject({ files: 2, failedFiles: 2, tests: 4, failed: 1 })
+    expect(report.files[0].tests).toHaveLength(4)
+    expect(report.files[0].tests[1].error.type).toBe('AssertionError')
+    expect(report.files[1].error.message).toBe('Cannot find module')
+  })
+
+  test('streams ndjson events in order', async () => {
+    const reporter = ndjsonReporter({ outputFile: 'out/events.ndjson' })
+    const [file] = results
+
+    await reporter.onRunStart?.({ rootDir, files: [file.file], workers: 1 })
+    await reporter.onFileStart?.(file.file)
+    await reporter.onTestResult?.(file.tests[0])
+    await reporter.onFileEnd?.(file)
+    await reporter.onRunEnd?.([file], summarize([file]))
+
+    const events = readFileSync(join(rootDir, 'out/events.ndjson'), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+    expect(events.map(event => event.type)).toEqual(['runStart', 'fileStart', 'testEnd', 'fileEnd', 'runEnd'])
+    expect(events[2]).toMatchObject({ name: 'adds', status: 'pass', path: ['math', 'add'] })
+    expect(events[3].tests).toBeUndefined()
+    expect(events[4].summary.tests).toBe(4)
+  })
+
+  test('rejects unknown reporter names', () => {
+    expect(() => createReporter('tap')).toThrow('Unknown reporter "tap"')
+  })
+})
+
+describe('custom reporters', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-custom-reporters-'))
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('resolves built-in names and reporter objects', async () => {
+    const custom = { onRunEnd: () => {} }
+    const reporters = await resolveReporters(['default', ['json', { outputFile: 'report.json' }], custom], rootDir)
+
+    expect(reporters).toHaveLength(3)
+    expect(typeof reporters[0].onFileEnd).toBe('function')
+    expect(typeof reporters[1].onRunEnd).toBe('function')
+    expect(reporters[2]).toBe(custom)
+  })
+
+  test('loads reporter factories from modules with their options', async () => {
+    writeFileSync(join(rootDir, 'factory-reporter.ts'), 'export default (options) => ({ label: options.label, onRunEnd() {} })\n')
+    const [reporter] = await resolveReporters([['./factory-reporter.ts', { label: 'ci' }]], rootDir)
+
+    expect((reporter as { label?: string }).label).toBe('ci')
+  })
+
+  test('loads reporter objects from modules', async () => {
+    writeFileSync(join(rootDir, 'object-reporter.ts'), 'export const reporter = { onTestResult() {} }\n')
+    const [reporter] = await resolveReporters(['./object-reporter.ts'], rootDir)
+
+    expect(typeof reporter.onTestResult).toBe('function')
+  })
+
+  test('rejects modules without a reporter export', async () => {
+    writeFileSync(join(rootDir, 'empty-reporter.ts'), 'export const value = 1\n')
+
+    await expect(resolveReporters(['./empty-reporter.ts'], rootDir)).rejects.toThrow('must export a reporter object')
+  })
+
+  test('rejects unknown names and missing modules with the built-in reporters', async () => {
+    await expect(resolveReporters(['bogus'], rootDir)).rejects.toThrow('Unknown reporter "bogus". Built-in reporters: default, junit, json, ndjson')
+    await expect(resolveReporters(['./missing-reporter.ts'], rootDir)).rejects.toThrow('Reporter module "./missing-reporter.ts" not found')
+  })
+})
@@ -0,0 +1,105 @@
+import type { FileResult } from '../src/types'
+import { describe, expect, test } from 'bun:test'
+import { decodeXmlEntities, isFailedFile, parseJUnitReport, parseXml, summarize, testFullName } from '../src/results'
+
+const report = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="bun test" tests="5" assertions="2" failures="1" skipped="2" time="0.0053">
+  <testsuite name="math.test.ts" file="math.test.ts" tests="5" assertions="2" failures="1" skipped="2" time="0.0018">
+    <testsuite name="outer" file="math.test.ts" line="2" tests="4">
+      <testsuite name="inner" file="math.test.ts" line="3" tests="2">
+        <testcase name="passes" classname="inner &gt; outer" time="0.000026" file="math.test.ts" line="4" assertions="1" />
+        <testcase name="fails" classname="inner &gt; outer" time="0.00027" file="math.test.ts" line="5" assertions="1">
+          <failure type="AssertionError" message="expect(received).toBe(expected)&#10;&#10;Expected: 2&#10;Received: 1&#10;">AssertionError: expect(received).toBe(expected)&#10;&#10;      at math.test.ts:5:64&#10;</failure>
+        </testcase>
+      </testsuite>
+      <testcase name="skipped" classname="outer" time="0" file="math.test.ts" line="7" assertions="0">
+        <skipped />
+      </testcase>
+      <testcase name="todo one" classname="outer" time="0" file="math.test.ts" line="8" assertions="0">
+        <skipped message="TODO" />
+      </testcase>
+    </testsuite>
+    <testcase name="top &lt;level&gt; &amp; &quot;q&quot;" classname="" time="0.5" file="math.test.ts" line="10" assertions="0" />
+  </testsuite>
+</testsuites>
+`
+
+function fileResult(overrides: Partial<FileResult> = {}): FileResult {
+  return { file: 'math.test.ts', tests: [], duration: 0, exitCode: 0, stdout: '', stderr: '', ...overrides }
+}
+
+describe('XML parsing', () => {
+  test('decodes named and numeric entities', () => {
+    expect(decodeXmlEntities('a &lt;b&gt; &amp; &quot;c&quot;&#10;&#x41;')).toBe('a <b> & "c"\nA')
+  })
+
+  test('builds an element tree with attributes and text', () => {
+    const root = parseXml('<a x="1"><b y=\'2\'/><c>hi &amp; bye</c><![CDATA[<raw>]]></a>')
+    expect(root.name).toBe('a')
+    expect(root.attributes.x).toBe('1')
+    expect(root.children.map(child => child.name)).toEqual(['b', 'c'])
+    expect(root.children[0].attributes.y).toBe('2')
+    expect(root.children[1].text).toBe('hi & bye')
+    expect(root.text).toBe('<raw>')
+  })
+})
+
+describe('JUnit report parsing', () => {
+  const tests = parseJUnitReport(report, 'test/math.test.ts')
+
+  test('collects every test case', () => {
+    expect(tests).toHaveLength(5)
+    expect(tests.every(t => t.file === 'test/math.test.ts')).toBe(true)
+  })
+
+  test('derives the describe path from nested suites', () => {
+    expect(tests[0].path).toEqual(['outer', 'inner'])
+    expect(tests[2].path).toEqual(['outer'])
+    expect(tests[4].path).toEqual([])
+    expect(testFullName(tests[1])).toBe('outer > inner > fails')
+  })
+
+  test('maps statuses', () => {
+    expect(tests.map(t => t.status)).toEqual(['pass', 'fail', 'skip', 'todo', 'pass'])
+  })
+
+  test('keeps failure message, type and stack', () => {
+    const error = tests[1].error
+    expect(error?.type).toBe('AssertionError')
+    expect(error?.message).toBe('expect(received).toBe(expected)\n\nExpected: 2\nReceived: 1')
+    expect(error?.stack).toContain('at math.test.ts:5:64')
+  })
+
+  test('converts timing to milliseconds and reads metadata', () => {
+    expect(tests[4].duration).toBe(500)
+    expect(tests[4].name).toBe('top <level> & "q"')
+    expect(tests[0].line).toBe(4)
+    expect(tests[0].assertions).toBe(1)
+  })
+})
+
+describe('summaries', () => {
+  const tests = parseJUnitReport(report, 'test/math.test.ts')
+
+  test('counts statuses and assertions', () => {
+    const summary = summarize([fileResult({ tests }), fileResult({ tests: [tests[0]] })], 12)
+    expect(summary).toEqual({
+      files: 2,
+      failedFiles: 1,
+      tests: 6,
+      passed: 3,
+      flaky: 0,
+      failed: 1,
+      skipped: 1,
+      todo: 1,
+      assertions: 3,
+      duration: 12,
+    })
+  })
+
+  test('treats load errors and non-zero exits as failed files', () => {
+    expect(isFailedFile(fileResult())).toBe(false)
+    expect(isFailedFile(fileResult({ exitCode: 1 }))).toBe(true)
+    expect(isFailedFile(fileResult({ error: { message: 'boom' } }))).toBe(true)
+  })
+})
@@ -0,0 +1,228 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { FileResult, RunSummary } from '../src/types'
+import { discoverTestFiles, excludeMatcher, relativeTestPath, runPool, runTestFiles, runTests, searchRoots } from '../src/runner'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('worker pool', () => {
+  test('never runs more tasks than the concurrency limit', async () => {
+    let running = 0
+    let peak = 0
+
+    await runPool([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++
+      peak = Math.max(peak, running)
+      await delay(5)
+      running--
+    })
+
+    expect(peak).toBe(2)
+  })
+
+  test('reports results in input order even when tasks finish out of order', async () => {
+    const emitted: number[] = []
+    const results = await runPool([30, 5, 15, 1], 4, async (ms) => {
+      await delay(ms)
+      return ms
+    }, result => emitted.push(result))
+
+    expect(results).toEqual([30, 5, 15, 1])
+    expect(emitted).toEqual([30, 5, 15, 1])
+  })
+
+  test('handles an empty list', async () => {
+    expect(await runPool([], 4, async () => 1)).toEqual([])
+  })
+})
+
+describe('test discovery', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-discovery-'))
+  for (const path of [
+    'test/a.test.ts',
+    'test/nested/b.spec.tsx',
+    'test/helpers.ts',
+    'examples/c.test.js',
+    'packages/core/src/d.test.ts',
+    'packages/core/src/e.ts',
+    'packages/core/node_modules/dep/f.test.ts',
+    'packages/core/dist/g.test.ts',
+  ]) {
+    mkdirSync(join(rootDir, path, '..'), { recursive: true })
+    writeFileSync(join(rootDir, path), '')
+  }
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  const discover = (options: Parameters<typeof discoverTestFiles>[0] = {}): string[] =>
+    discoverTestFiles({ cwd: rootDir, ...options }).map(file => relativeTestPath(file, rootDir)).sort()
+
+  test('searches test and examples by default', () => {
+    expect(discover()).toEqual(['examples/c.test.js', 'test/a.test.ts', 'test/nested/b.spec.tsx'])
+  })
+
+  test('uses the configured roots and include globs', () => {
+    expect(discover({ roots: ['packages'], include: ['packages/*/src/**/*.test.ts'] })).toEqual(['packages/core/src/d.test.ts'])
+    expect(discover({ roots: ['.'], include: ['**/*.spec.tsx'] })).toEqual(['test/nested/b.spec.tsx'])
+  })
+
+  test('searches the directories of the include globs when no roots are set', () => {
+    expect(searchRoots({ include: ['src/**/*.test.ts', './tests/**/*.spec.ts', 'packages/*/src/**/*.test.ts'] })).toEqual(['src', 'tests', 'packages'])
+    expect(searchRoots({ include: ['**/*.test.ts', 'test/a.test.ts'] })).toEqual(['.', 'test'])
+    expect(discover({ include: ['packages/*/src/**/*.test.ts'] })).toEqual(['packages/core/src/d.test.ts'])
+    expect(discover({ include: ['**/*.spec.tsx'] })).toEqual(['test/nested/b.spec.tsx'])
+  })
+
+  test('skips node_modules and excluded globs', () => {
+    expect(discover({ roots: ['.'] })).toEqual([
+      'examples/c.test.js',
+      'packages/core/dist/g.test.ts',
+      'packages/core/src/d.test.ts',
+      'test/a.test.ts',
+      'test/nested/b.spec.tsx',
+    ])
+    expect(discover({ roots: ['.'], exclude: ['node_modules', 'dist', 'test/nested/**', 'examples/*.js'] })).toEqual([
+      'packages/core/src/d.test.ts',
+      'test/a.test.ts',
+    ])
+  })
+
+  test('lists each file once when roots overlap', () => {
+    expect(discover({ roots: ['test', '.', 'test/nested'] })).toHaveLength(5)
+  })
+
+  test('applies path filters after the globs', () => {
+    expect(discover({ roots: ['.'], paths: ['nested', 'core/src'] })).toEqual(['packages/core/src/d.test.ts', 'test/nested/b.spec.tsx'])
+  })
+
+  test('treats a bare exclude name as matching at any depth', () => {
+    const isExcluded = excludeMatcher(['dist', 'coverage/**'])
+    expect(isExcluded('dist/a.test.ts')).toBe(true)
+    expect(isExcluded('packages/core/dist/a.test.ts')).toBe(true)
+    expect(isExcluded('coverage', true)).toBe(true)
+    expect(isExcluded('packages/coverage/a.test.ts')).toBe(false)
+    expect(isExcluded('src/distance.test.ts')).toBe(false)
+  })
+})
+
+describe('bail', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-bail-'))
+  const file = (name: string, body: string): string => {
+    const path = join(rootDir, name)
+    writeFileSync(path, `import { expect, test } from 'bun:test'\n${body}\n`)
+    return path
+  }
+  const failing = file('failing.test.ts', 'test(\'one\', () => expect(1).toBe(2))\ntest(\'two\', () => expect(1).toBe(2))')
+  const slow = file('slow.test.ts', 'test(\'waits\', async () => { await Bun.sleep(3000) }, 10000)')
+  const passing = file('passing.test.ts', 'test(\'passes\', () => expect(1).toBe(1))')
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  const run = async (bail?: number): Promise<{ files: string[], summary?: RunSummary }> => {
+    let summary: RunSummary | undefined
+    const results = await runTestFiles([failing, slow, passing], {
+      cwd: rootDir,
+      workers: 2,
+      bail,
+      reporters: [{ onRunEnd: (_results, runSummary) => { summary = runSummary } }],
+    })
+    return { files: results.map(result => result.file), summary }
+  }
+
+  test('cancels the running files and skips the rest after the first failure', async () => {
+    const start = performance.now()
+    const { files, summary } = await run(1)
+
+    expect(performance.now() - start).toBeLessThan(2500)
+    expect(files).toEqual(['failing.test.ts'])
+    expect(summary).toMatchObject({ files: 1, failed: 2, skippedFiles: 2 })
+  }, 10000)
+
+  test('keeps running until the number of failed tests is reached', async () => {
+    const { files, summary } = await run(3)
+
+    expect(files).toEqual(['failing.test.ts', 'slow.test.ts', 'passing.test.ts'])
+    expect(summary?.skippedFiles).toBeUndefined()
+  }, 10000)
+})
+
+describe('retries and timeouts', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-retry-'))
+  const file = (name: string, body: string): string => {
+    const path = join(rootDir, name)
+    writeFileSync(path, `import { beforeEach, expect, test } from 'bun:test'\nimport { existsSync, writeFileSync } from 'node:fs'\n${body}\n`)
+    return path
+  }
+  const marker = join(rootDir, 'failed-once')
+  const flaky = file('flaky.test.ts', `test('passes the second time', () => {
+  const failedBefore = existsSync(${JSON.stringify(marker)})
+  writeFileSync(${JSON.stringify(marker)}, '')
+  expect(failedBefore).toBe(true)
+})
+test('passes', () => expect(1).toBe(1))`)
+  const hooks = file('hooks.test.ts', `beforeEach(async () => { await Bun.sleep(500) })
+test('fast', async () => { await Bun.sleep(10) })
+test('slow', async () => { await Bun.sleep(600) })`)
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('reports a test that passes on a retry as flaky and exits with 0', async () => {
+    let results: FileResult[] = []
+    const exitCode = await runTests({
+      cwd: rootDir,
+      roots: ['.'],
+      paths: ['flaky'],
+      retry: 1,
+      reporters: [{ onRunEnd: (runResults) => { results = runResults } }],
+    })
+
+    expect(exitCode).toBe(0)
+    expect(results[0].tests.map(({ name, status, retries }) => ({ name, status, retries }))).toEqual([
+      { name: 'passes the second time', status: 'flaky', retries: 1 },
+      { name: 'passes', status: 'pass', retries: undefined },
+    ])
+  }, 10000)
+
+  test('applies the hook timeout to hooks and the test timeout to tests', async () => {
+    const [result] = await runTestFiles([hooks], { cwd: rootDir, testTimeout: 250, hookTimeout: 1000, reporters: [{}] })
+
+    expect(result.tests.map(({ name, status }) => ({ name, status }))).toEqual([
+      { name: 'fast', status: 'pass' },
+      { name: 'slow', status: 'fail' },
+    ])
+  }, 10000)
+})
+
+describe('name filters', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-filter-'))
+  writeFileSync(join(rootDir, 'auth.test.ts'), `import { test } from 'bun:test'\ntest('login @slow', () => {})\ntest('logout', () => {})\n`)
+  writeFileSync(join(rootDir, 'cart.test.ts'), `import { test } from 'bun:test'\ntest('adds an item', () => {})\n`)
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('leaves files without a matching test out of the reports and the summary', async () => {
+    const ended: string[] = []
+    let summary: RunSummary | undefined
+    const exitCode = await runTests({
+      cwd: rootDir,
+      roots: ['.'],
+      tags: ['slow'],
+      reporters: [{ onFileEnd: result => void ended.push(result.file), onRunEnd: (_results, runSummary) => { summary = runSummary } }],
+    })
+
+    expect(exitCode).toBe(0)
+    expect(ended).toEqual(['auth.test.ts'])
+    expect(summary).toMatchObject({ files: 1, tests: 1, passed: 1 })
+    expect(summary?.skippedFiles).toBeUndefined()
+  }, 10000)
+})
@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test'
+import { configIssues, validateConfig } from '../src/schema'
+
+describe('config schema', () => {
+  test('accepts a full config', () => {
+    expect(configIssues({
+      verbose: false,
+      workers: 4,
+      reporters: ['default', ['junit', { outputFile: 'report.xml' }], { onRunEnd: () => {} }],
+      roots: ['test'],
+      include: ['test/**/*.test.ts'],
+      exclude: ['node_modules'],
+      testTimeout: 10000,
+      retry: 2,
+      coverage: { enabled: true, reporter: ['text', 'lcov'], thresholds: { lines: 90 } },
+      maxDuration: { test: 500, fail: true },
+      browser: { browser: 'firefox', headless: true },
+      stress: { duration: 5, concurrency: 10, headers: { Authorization: 'Bearer token' } },
+      api: { baseUrl: 'http://localhost:3000', timeout: 1000 },
+      database: { url: 'sqlite://:memory:' },
+    })).toEqual([])
+    expect(configIssues({ maxDuration: 500 })).toEqual([])
+  })
+
+  test('names the path of unknown and wrongly typed keys', () => {
+    expect(configIssues({
+      workers: '4',
+      reportrs: ['junit'],
+      include: ['test/**', 42],
+      coverage: { thresholds: { lines: 120, branches: 80 } },
+      maxDuration: { test: -1 },
+      browser: { browser: 'safari' },
+      api: { headers: { 'X-Retry': 3 } },
+    })).toEqual([
+      'workers: expected a non-negative integer, got "4"',
+      'reportrs: unknown key',
+      'include[1]: expected a string, got 42',
+      'coverage.thresholds.lines: expected a percentage between 0 and 100, got 120',
+      'coverage.thresholds.branches: unknown key',
+      'maxDuration.test: expected a number of milliseconds, got -1',
+      'browser.browser: expected one of "chromium", "firefox", got "safari"',
+      'api.headers.X-Retry: expected a string, got 3',
+    ])
+  })
+
+  test('checks profiles like the base config', () => {
+    expect(configIssues({ profiles: { ci: { workers: 2, coverage: { enabled: true } } } })).toEqual([])
+    expect(configIssues({ profiles: { ci: { workers: 'max', profiles: {} }, local: 'fast' } })).toEqual([
+      'profiles.ci.workers: expected a non-negative integer, got "max"',
+      'profiles.ci.profiles: unknown key',
+      'profiles.local: expected an object, got "fast"',
+    ])
+  })
+
+  test('rejects reporter entries of the wrong shape', () => {
+    expect(configIssues({ reporters: [42, ['junit', { outputFile: true }], ['./reporter.ts', { theme: 'dark' }]] })).toEqual([
+      'reporters[0]: expected a reporter name, a reporter object or a [name, options] tuple, got 42',
+      'reporters[1][1].outputFile: expected a string, got true',
+    ])
+  })
+
+  test('throws one error listing every problem', () => {
+    expect(() => validateConfig({ retry: 1.5, coverage: true })).toThrow(
+      'Invalid besting config:\n  - retry: expected a non-negative integer, got 1.5\n  - coverage: expected an object, got true',
+    )
+    expect(() => validateConfig([])).toThrow('config: expected an object, got an array')
+    expect(validateConfig({ verbose: true })).toEqual({ verbose: true })
+  })
+})
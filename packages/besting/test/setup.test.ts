@@ -0,0 +1,66 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import process from 'node:process'
+import { runGlobalSetup, setupEnv } from '../src/setup'
+
+describe('global setup', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-setup-'))
+  const log = join(rootDir, 'log.txt')
+  const file = (name: string, content: string): string => {
+    writeFileSync(join(rootDir, name), content)
+    return name
+  }
+  const logged = (): string[] => readFileSync(log, 'utf8').trim().split('\n')
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('converts returned values into environment variables', () => {
+    expect(setupEnv({ URL: 'http://localhost:3000', PORT: 3000, USER: { id: 1 }, SKIPPED: undefined })).toEqual({
+      URL: 'http://localhost:3000',
+      PORT: '3000',
+      USER: '{"id":1}',
+    })
+  })
+
+  test('exposes the returned values to the test processes until teardown', async () => {
+    const globalSetup = file('values.ts', 'export default async () => ({ BESTING_TEST_SERVER: \'http://localhost:4000\' })\n')
+
+    const session = await runGlobalSetup({ cwd: rootDir, globalSetup })
+    expect(session.env).toEqual({ BESTING_TEST_SERVER: 'http://localhost:4000' })
+    expect(process.env.BESTING_TEST_SERVER).toBe('http://localhost:4000')
+
+    expect(await session.teardown()).toEqual([])
+    expect(process.env.BESTING_TEST_SERVER).toBeUndefined()
+  })
+
+  test('runs every teardown, in order, even when one throws', async () => {
+    writeFileSync(log, '')
+    const append = `import { appendFileSync } from 'node:fs'\nconst log = (line: string) => appendFileSync(${JSON.stringify(log)}, line + '\\n')\n`
+    const globalSetup = file('server.ts', `${append}export default () => { log('setup'); return () => log('returned') }\nexport const teardown = () => { log('exported'); throw new Error('busy') }\n`)
+    const globalTeardown = file('teardown.ts', `${append}export default () => log('globalTeardown')\n`)
+
+    const session = await runGlobalSetup({ cwd: rootDir, globalSetup, globalTeardown })
+    const errors = await session.teardown()
+
+    expect(logged()).toEqual(['setup', 'returned', 'exported', 'globalTeardown'])
+    expect(errors).toHaveLength(1)
+    expect((errors[0] as Error).message).toBe('busy')
+  })
+
+  test('tears down when the setup itself fails', async () => {
+    writeFileSync(log, '')
+    const globalSetup = file('failing.ts', `import { appendFileSync } from 'node:fs'\nexport default () => { throw new Error('no database') }\nexport const teardown = () => appendFileSync(${JSON.stringify(log)}, 'cleaned up\\n')\n`)
+
+    await expect(runGlobalSetup({ cwd: rootDir, globalSetup })).rejects.toThrow('no database')
+    expect(logged()).toEqual(['cleaned up'])
+  })
+
+  test('rejects modules whose export is not a function', async () => {
+    const globalSetup = file('object.ts', 'export default { port: 3000 }\n')
+    await expect(runGlobalSetup({ cwd: rootDir, globalSetup })).rejects.toThrow('"object.ts" must export a function')
+  })
+})
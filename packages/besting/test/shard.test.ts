@@ -0,0 +1,129 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { formatJsonReport, formatJUnitReport } from '../src/reporters'
+import { summarize } from '../src/results'
+import { parseShard, readReport, shardFiles } from '../src/shard'
+
+describe('shard parsing', () => {
+  test('accepts index/total', () => {
+    expect(parseShard('2/5')).toEqual({ index: 2, total: 5 })
+  })
+
+  test('rejects malformed or out of range shards', () => {
+    expect(() => parseShard('0/5')).toThrow('Invalid shard "0/5"')
+    expect(() => parseShard('6/5')).toThrow('Invalid shard')
+    expect(() => parseShard('two/five')).toThrow('Invalid shard')
+  })
+})
+
+describe('sharding', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-shard-'))
+  mkdirSync(join(rootDir, 'test'))
+  const files = Array.from({ length: 7 }, (_, i) => {
+    const file = join(rootDir, 'test', `file-${i}.test.ts`)
+    writeFileSync(file, 'x'.repeat((i + 1) * 100))
+    return file
+  })
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  const allShards = (total: number): string[][] =>
+    Array.from({ length: total }, (_, i) => shardFiles(files, { index: i + 1, total }, rootDir))
+
+  test('covers every file exactly once', () => {
+    const shards = allShards(3)
+    expect(shards.flat().sort()).toEqual([...files].sort())
+  })
+
+  test('is deterministic and keeps discovery order', () => {
+    expect(allShards(3)).toEqual(allShards(3))
+    for (const shard of allShards(3))
+      expect(shard).toEqual(files.filter(file => shard.includes(file)))
+  })
+
+  test('balances by file size without recorded durations', () => {
+    const [first, second] = allShards(2)
+    expect(first).toEqual([files[2], files[3], files[6]])
+    expect(second).toEqual([files[0], files[1], files[4], files[5]])
+  })
+
+  test('balances by recorded durations when available', () => {
+    const durations = Object.fromEntries(files.map((_, i) => [`test/file-${i}.test.ts`, i === 0 ? 9000 : 100]))
+    mkdirSync(join(rootDir, '.besting'), { recursive: true })
+    writeFileSync(join(rootDir, '.besting/durations.json'), JSON.stringify(durations))
+
+    const [first, second] = allShards(2)
+    expect(first).toEqual([files[0]])
+    expect(second).toEqual(files.slice(1))
+
+    rmSync(join(rootDir, '.besting'), { recursive: true })
+  })
+
+  test('counts files without a recorded duration as average', () => {
+    mkdirSync(join(rootDir, '.besting'), { recursive: true })
+    writeFileSync(join(rootDir, '.besting/durations.json'), JSON.stringify({ 'test/file-0.test.ts': 600, 'test/file-1.test.ts': 200 }))
+
+    const shards = allShards(4)
+    expect(shards[0]).toEqual([files[0]])
+    expect(shards.flat().sort()).toEqual([...files].sort())
+
+    rmSync(join(rootDir, '.besting'), { recursive: true })
+  })
+
+  test('allows more shards than files', () => {
+    const shards = Array.from({ length: 10 }, (_, i) => shardFiles(files.slice(0, 2), { index: i + 1, total: 10 }, rootDir))
+    expect(shards.filter(shard => shard.length > 0)).toHaveLength(2)
+  })
+})
+
+describe('reading reports', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-merge-'))
+  const results = [
+    {
+      file: 'test/a.test.ts',
+      duration: 20,
+      exitCode: 1,
+      stdout: '',
+      stderr: 'oops',
+      tests: [
+        { file: 'test/a.test.ts', path: ['suite'], name: 'works', status: 'pass' as const, duration: 2, assertions: 1 },
+        { file: 'test/a.test.ts', path: ['suite'], name: 'breaks', status: 'fail' as const, duration: 3, assertions: 1, error: { message: 'nope', stack: 'Error: nope' } },
+      ],
+    },
+    { file: 'test/b.test.ts', duration: 5, exitCode: 1, stdout: '', stderr: '', tests: [], error: { message: 'Cannot find module' } },
+  ]
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('reads JUnit reports back into file results', () => {
+    writeFileSync(join(rootDir, 'shard.xml'), formatJUnitReport(results))
+    const [a, b] = readReport(join(rootDir, 'shard.xml'))
+
+    expect(a.file).toBe('test/a.test.ts')
+    expect(a.tests.map(t => [t.path, t.name, t.status])).toEqual([[['suite'], 'works', 'pass'], [['suite'], 'breaks', 'fail']])
+    expect(a.stderr).toBe('oops')
+    expect(a.duration).toBe(20)
+    expect(b.tests).toEqual([])
+    expect(b.error?.message).toBe('Cannot find module')
+    expect(summarize([a, b]).failedFiles).toBe(2)
+  })
+
+  test('reads JSON reports back into file results', () => {
+    writeFileSync(join(rootDir, 'shard.json'), formatJsonReport(results, summarize(results)))
+    const [a, b] = readReport(join(rootDir, 'shard.json'))
+
+    expect(a.tests).toEqual(results[0].tests)
+    expect(b.error?.message).toBe('Cannot find module')
+  })
+
+  test('rejects JSON that is not a besting report', () => {
+    writeFileSync(join(rootDir, 'other.json'), '{"hello":"world"}')
+    expect(() => readReport(join(rootDir, 'other.json'))).toThrow('is not a besting JSON report')
+  })
+})
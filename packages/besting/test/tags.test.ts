@@ -0,0 +1,79 @@
+import type { FileResult } from '../src/types'
+import { describe, expect, test } from 'bun:test'
+import { formatJsonReport, formatJUnitReport } from '../src/reporters'
+import { parseJUnitReport, summarize } from '../src/results'
+import { combineNamePatterns, parseTags, taggedName, tagPattern, validateNamePattern } from '../src/tags'
+
+describe('tags', () => {
+  test('appends tags to a test name', () => {
+    expect(taggedName('logs in', ['browser', '@slow'])).toBe('logs in @browser @slow')
+    expect(taggedName('logs in @browser', ['browser', 'db'])).toBe('logs in @browser @db')
+    expect(taggedName('logs in')).toBe('logs in')
+  })
+
+  test('reads tags from names', () => {
+    expect(parseTags('auth @browser logs in @slow @browser')).toEqual(['browser', 'slow'])
+    expect(parseTags('sends mail to user@example.com')).toEqual([])
+  })
+
+  test('selects tests by tag, including the tags of describe blocks', () => {
+    const pattern = new RegExp(tagPattern(['browser', 'db'], ['slow'])!)
+
+    expect(pattern.test('auth @browser logs in')).toBe(true)
+    expect(pattern.test('stores users @db')).toBe(true)
+    expect(pattern.test('auth @browser checkout @slow')).toBe(false)
+    expect(pattern.test('auth @browsers logs in')).toBe(false)
+    expect(pattern.test('plain')).toBe(false)
+    expect(new RegExp(tagPattern([], ['slow'])!).test('plain')).toBe(true)
+    expect(tagPattern()).toBeUndefined()
+  })
+
+  test('combines name patterns so that all of them must match', () => {
+    const pattern = new RegExp(combineNamePatterns('login', undefined, tagPattern(['browser']), '^(?:auth @browser login page)$')!)
+
+    expect(pattern.test('auth @browser login page')).toBe(true)
+    expect(pattern.test('auth @browser logout page')).toBe(false)
+    expect(combineNamePatterns(undefined, 'login')).toBe('login')
+    expect(combineNamePatterns()).toBeUndefined()
+  })
+
+  test('rejects invalid name patterns', () => {
+    expect(validateNamePattern('log(in|out)')).toBe('log(in|out)')
+    expect(() => validateNamePattern('log(in')).toThrow('Invalid test name pattern "log(in"')
+  })
+})
+
+describe('tags in reports', () => {
+  const xml = `<testsuites>
+  <testsuite name="test/auth.test.ts">
+    <testsuite name="auth @browser">
+      <testcase name="logs in @slow" time="0.01" />
+      <testcase name="logs out" time="0.01" />
+    </testsuite>
+    <testcase name="untagged" time="0.01" />
+  </testsuite>
+</testsuites>`
+  const tests = parseJUnitReport(xml, 'test/auth.test.ts')
+  const results: FileResult[] = [{ file: 'test/auth.test.ts', tests, duration: 30, exitCode: 0, stdout: '', stderr: '' }]
+
+  test('parses the tags of each test', () => {
+    expect(tests.map(test => test.tags)).toEqual([['browser', 'slow'], ['browser'], undefined])
+  })
+
+  test('writes tags as JUnit properties', () => {
+    const report = formatJUnitReport(results)
+
+    expect(report).toContain(`<testcase name="logs in @slow" classname="auth @browser" time="0.01" file="test/auth.test.ts" assertions="0">
+      <properties>
+        <property name="tag" value="browser" />
+        <property name="tag" value="slow" />
+      </properties>
+    </testcase>`)
+    expect(report).toContain('<testcase name="untagged" classname="" time="0.01" file="test/auth.test.ts" assertions="0" />')
+  })
+
+  test('includes tags in JSON reports', () => {
+    const report = JSON.parse(formatJsonReport(results, summarize(results, 30)))
+    expect(report.files[0].tests[0].tags).toEqual(['browser', 'slow'])
+  })
+})
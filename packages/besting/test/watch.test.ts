@@ -0,0 +1,56 @@
+import { afterAll, describe, expect, test } from 'bun:test'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ImportGraph } from '../src/watch'
+
+describe('import graph', () => {
+  const rootDir = mkdtempSync(join(tmpdir(), 'besting-watch-'))
+  const file = (path: string, content: string): string => {
+    const fullPath = join(rootDir, path)
+    mkdirSync(join(fullPath, '..'), { recursive: true })
+    writeFileSync(fullPath, content)
+    return fullPath
+  }
+
+  const util = file('src/util.ts', 'export const add = (a: number, b: number) => a + b\n')
+  const math = file('src/math.ts', 'import { add } from \'./util\'\nimport { join } from \'node:path\'\nexport const sum = (xs: number[]) => xs.reduce(add, 0)\nexport { join }\n')
+  const strings = file('src/strings.ts', 'export * from \'./math\'\nexport const upper = (s: string) => s.toUpperCase()\n')
+  const other = file('src/other.ts', 'export const other = 1\n')
+  const mathTest = file('test/math.test.ts', 'import { sum } from \'../src/math\'\n')
+  const stringsTest = file('test/strings.test.ts', 'import { upper } from \'../src/strings\'\n')
+  const plainTest = file('test/plain.test.ts', 'import { test } from \'bun:test\'\n')
+  const testFiles = [mathTest, stringsTest, plainTest]
+
+  afterAll(() => {
+    rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  test('collects direct local imports only', () => {
+    const graph = new ImportGraph(rootDir)
+    expect(graph.directImports(math)).toEqual([util])
+    expect(graph.directImports(plainTest)).toEqual([])
+  })
+
+  test('follows imports and re-exports transitively', () => {
+    const graph = new ImportGraph(rootDir)
+    expect([...graph.dependenciesOf(stringsTest)].sort()).toEqual([math, strings, util].sort())
+  })
+
+  test('finds the test files affected by a change', () => {
+    const graph = new ImportGraph(rootDir)
+    expect(graph.affectedTests([util], testFiles)).toEqual([mathTest, stringsTest])
+    expect(graph.affectedTests([strings], testFiles)).toEqual([stringsTest])
+    expect(graph.affectedTests([plainTest], testFiles)).toEqual([plainTest])
+    expect(graph.affectedTests([other], testFiles)).toEqual([])
+  })
+
+  test('rescans a file after it is invalidated', () => {
+    const graph = new ImportGraph(rootDir)
+    expect(graph.affectedTests([other], testFiles)).toEqual([])
+
+    file('test/plain.test.ts', 'import { other } from \'../src/other\'\n')
+    graph.invalidate(plainTest)
+    expect(graph.affectedTests([other], testFiles)).toEqual([plainTest])
+  })
+})